@@ -0,0 +1,524 @@
+import { escapeRegExp } from "./lib";
+
+export type DatePrecision = "minute" | "second";
+
+export interface ParsedDate {
+  /**
+   * The timestamp in milliseconds since epoch
+   */
+  timestamp: number;
+
+  /**
+   * The date exactly as it was printed in the listing
+   */
+  raw: string;
+
+  /**
+   * The smallest unit of time the printed date contains
+   */
+  precision: DatePrecision;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number | undefined;
+  millisecond?: number;
+
+  /**
+   * The offset from UTC in milliseconds, when the printed date carries its own zone
+   */
+  offset?: number;
+}
+
+interface DateFormat {
+  regex: RegExp;
+  toParts: (match: RegExpMatchArray) => DateParts | undefined;
+}
+
+const MONTH_NAMES: string[][] = [
+  // english, german, french, spanish, italian, dutch, portuguese and scandinavian names
+  ["january", "januar", "jänner", "jän", "janvier", "janv", "enero", "ene", "gennaio", "gen", "januari", "janeiro"],
+  ["february", "februar", "février", "févr", "febrero", "febbraio", "februari", "fevereiro"],
+  ["march", "märz", "mrz", "mars", "marzo", "maart", "mrt", "março", "marts"],
+  ["april", "avril", "avr", "abril", "abr", "aprile"],
+  ["may", "mai", "mayo", "maggio", "mag", "mei", "maio", "maj"],
+  ["june", "juni", "juin", "junio", "giugno", "giu", "junho"],
+  ["july", "juli", "juillet", "juil", "julio", "luglio", "lug", "julho"],
+  ["august", "août", "agosto", "ago", "augustus", "augusti"],
+  ["september", "septembre", "sept", "septiembre", "settembre", "set", "setembro"],
+  ["october", "oktober", "okt", "octobre", "octubre", "ottobre", "ott", "outubro", "out"],
+  ["november", "novembre", "noviembre", "novembro"],
+  ["december", "dezember", "dez", "décembre", "déc", "diciembre", "dic", "dicembre", "desember", "des", "dezembro"],
+];
+
+const MONTHS = new Map<string, number>();
+const AMBIGUOUS_PREFIXES = new Set<string>();
+
+for (const [index, names] of MONTH_NAMES.entries()) {
+  for (const name of names) {
+    const key = normalizeMonthName(name);
+    MONTHS.set(key, index + 1);
+
+    // three letter prefixes of full names are common abbreviations, unless they collide with another month
+    const prefix = key.slice(0, 3);
+    const existing = MONTHS.get(prefix);
+    if (existing !== undefined && existing !== index + 1) {
+      AMBIGUOUS_PREFIXES.add(prefix);
+    } else {
+      MONTHS.set(prefix, index + 1);
+    }
+  }
+}
+
+for (const prefix of AMBIGUOUS_PREFIXES) {
+  MONTHS.delete(prefix);
+}
+
+const DATE_FORMATS: DateFormat[] = [
+  {
+    // ISO 8601: 2024-05-01T13:37:42.123+02:00
+    regex: /(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?(Z|[+-]\d{2}(?::?\d{2})?)?/,
+    toParts: ([, year, month, day, hour, minute, second, fraction, zone]) => ({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: toSecond(second),
+      millisecond: fraction === undefined ? undefined : Number(fraction.slice(0, 3).padEnd(3, "0")),
+      offset: zone ? parseFixedOffset(zone) : undefined,
+    }),
+  },
+  {
+    // YYYY-MM-DD HH:MM[:SS] (apache 2.4)
+    regex: /(\d{4})-(\d{2})-(\d{2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/,
+    toParts: ([, year, month, day, hour, minute, second]) => ({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: toSecond(second),
+    }),
+  },
+  {
+    // DD-Mon-YYYY HH:MM[:SS] (apache 2.2, nginx), with english or localized month names
+    regex: /(\d{1,2})-(\p{L}+\.?)-(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/u,
+    toParts: ([, day, month, year, hour, minute, second]) => withMonth(month, (monthNumber) => ({
+      year: Number(year),
+      month: monthNumber,
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: toSecond(second),
+    })),
+  },
+  {
+    // YYYY-Mon-DD HH:MM[:SS] (lighttpd)
+    regex: /(\d{4})-(\p{L}+\.?)-(\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/u,
+    toParts: ([, year, month, day, hour, minute, second]) => withMonth(month, (monthNumber) => ({
+      year: Number(year),
+      month: monthNumber,
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: toSecond(second),
+    })),
+  },
+  {
+    // RFC 1123: Wed, 01 May 2024 13:37:42 GMT
+    regex: /(?:\p{L}+,\s*)?(\d{1,2})\s+(\p{L}+\.?)\s+(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s+(GMT|UTC|Z|[+-]\d{4}))?/u,
+    toParts: ([, day, month, year, hour, minute, second, zone]) => withMonth(month, (monthNumber) => ({
+      year: Number(year),
+      month: monthNumber,
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: toSecond(second),
+      offset: zone ? parseFixedOffset(zone) : undefined,
+    })),
+  },
+  {
+    // RFC 850: Wednesday, 01-May-24 13:37:42 GMT
+    regex: /\p{L}+,\s*(\d{2})-(\p{L}+)-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})\s+GMT/u,
+    toParts: ([, day, month, year, hour, minute, second]) => withMonth(month, (monthNumber) => ({
+      // two digit years are assumed to be within 1970-2069
+      year: Number(year) < 70 ? 2000 + Number(year) : 1900 + Number(year),
+      month: monthNumber,
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+      offset: 0,
+    })),
+  },
+  {
+    // IIS short date: 5/1/2024  1:37 PM
+    regex: /(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AP]M))?/i,
+    toParts: ([, month, day, year, hour, minute, second, meridiem]) => withHour(hour, meridiem, (hourNumber) => ({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: hourNumber,
+      minute: Number(minute),
+      second: toSecond(second),
+    })),
+  },
+  {
+    // IIS long date: Wednesday, May 01, 2024  1:37 PM
+    regex: /(?:\p{L}+,\s*)?(\p{L}+)\s+(\d{1,2}),\s*(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AP]M))?/iu,
+    toParts: ([, month, day, year, hour, minute, second, meridiem]) => withMonth(month, (monthNumber) => withHour(hour, meridiem, (hourNumber) => ({
+      year: Number(year),
+      month: monthNumber,
+      day: Number(day),
+      hour: hourNumber,
+      minute: Number(minute),
+      second: toSecond(second),
+    }))),
+  },
+  {
+    // asctime: Wed May  1 13:37:42 2024
+    regex: /\p{L}{3}\s+(\p{L}{3})\s+(\d{1,2})\s+(\d{2}):(\d{2}):(\d{2})\s+(\d{4})/u,
+    toParts: ([, month, day, hour, minute, second, year]) => withMonth(month, (monthNumber) => ({
+      year: Number(year),
+      month: monthNumber,
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+    })),
+  },
+];
+
+/**
+ * Parses a date as printed in a directory listing.
+ *
+ * The following formats are recognized, without relying on the lenient `Date` parsing of the engine:
+ * - `YYYY-MM-DD HH:MM[:SS]` (apache 2.4)
+ * - `DD-Mon-YYYY HH:MM[:SS]` (apache 2.2, nginx), with english or localized month names
+ * - `YYYY-Mon-DD HH:MM[:SS]` (lighttpd)
+ * - ISO 8601 (`2024-05-01T13:37:42Z`)
+ * - `M/D/YYYY h:mm AM` and `dddd, MMMM dd, yyyy h:mm AM` (IIS)
+ * - RFC 1123 (`Wed, 01 May 2024 13:37:42 GMT`), RFC 850 and asctime
+ *
+ * Dates without an explicit offset are interpreted in the given timezone.
+ *
+ * @param {string} text - The date to parse
+ * @param {string} timezone - An IANA timezone name or a fixed offset (e.g. "+02:00")
+ * @returns {ParsedDate | undefined} The parsed date, or undefined if the text isn't a valid date
+ */
+export function parseDate(text: string, timezone: string = "UTC"): ParsedDate | undefined {
+  const trimmed = text.trim();
+  const date = findDate(trimmed, timezone);
+
+  if (!date || date.index !== 0 || date.raw.length !== trimmed.length) {
+    return undefined;
+  }
+
+  return {
+    timestamp: date.timestamp,
+    raw: date.raw,
+    precision: date.precision,
+  };
+}
+
+const HTTP_DAY = "(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)";
+const HTTP_MONTH = "(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)";
+const HTTP_TIME = "\\d{2}:\\d{2}:\\d{2}";
+
+// the three forms of RFC 9110, which only allow english names and GMT
+const HTTP_DATE = new RegExp(`^(?:${[
+  `${HTTP_DAY}, \\d{2} ${HTTP_MONTH} \\d{4} ${HTTP_TIME} GMT`,
+  `(?:Mon|Tues|Wednes|Thurs|Fri|Satur|Sun)day, \\d{2}-${HTTP_MONTH}-\\d{2} ${HTTP_TIME} GMT`,
+  `${HTTP_DAY} ${HTTP_MONTH} [ \\d]\\d ${HTTP_TIME} \\d{4}`,
+].join("|")})$`);
+
+/**
+ * Parses an HTTP-date, as sent in headers like `Retry-After` or `Last-Modified`.
+ *
+ * Only the RFC 1123 (`Wed, 01 May 2024 13:37:42 GMT`), RFC 850 (`Wednesday, 01-May-24 13:37:42 GMT`)
+ * and asctime (`Wed May  1 13:37:42 2024`) forms are accepted, all of them in GMT.
+ *
+ * @param {string} text - The date to parse
+ * @returns {number | undefined} The timestamp in milliseconds since epoch, or undefined if the text isn't a valid HTTP-date
+ */
+export function parseHttpDate(text: string): number | undefined {
+  const trimmed = text.trim();
+  return HTTP_DATE.test(trimmed) ? parseDate(trimmed, "UTC")?.timestamp : undefined;
+}
+
+/**
+ * Finds and parses the first date in a piece of listing text.
+ *
+ * @param {string} text - The text containing the date
+ * @param {string} timezone - An IANA timezone name or a fixed offset (e.g. "+02:00")
+ * @returns {(ParsedDate & { index: number }) | undefined} The parsed date and where it starts in `text`, or undefined if no date was found
+ */
+export function findDate(text: string, timezone: string = "UTC"): (ParsedDate & { index: number }) | undefined {
+  let found: (ParsedDate & { index: number }) | undefined;
+
+  for (const format of DATE_FORMATS) {
+    const match = text.match(format.regex);
+    if (!match || match.index === undefined || (found && match.index >= found.index)) {
+      continue;
+    }
+
+    const parts = format.toParts(match);
+    if (!parts || !isValidDate(parts)) {
+      continue;
+    }
+
+    found = {
+      timestamp: toTimestamp(parts, timezone),
+      raw: match[0],
+      precision: parts.second === undefined ? "minute" : "second",
+      index: match.index,
+    };
+  }
+
+  return found;
+}
+
+function normalizeMonthName(name: string): string {
+  return name.normalize("NFD").replace(/[\u0300-\u036F]/g, "").replace(/\.$/, "").toLowerCase();
+}
+
+function withMonth(name: string | undefined, build: (month: number) => DateParts | undefined): DateParts | undefined {
+  const month = name ? MONTHS.get(normalizeMonthName(name)) : undefined;
+  return month === undefined ? undefined : build(month);
+}
+
+function withHour(hour: string | undefined, meridiem: string | undefined, build: (hour: number) => DateParts): DateParts | undefined {
+  const hourNumber = Number(hour);
+  if (!meridiem) {
+    return build(hourNumber);
+  }
+
+  // 12 hour clock, where 12 AM is midnight and 12 PM is noon
+  if (hourNumber < 1 || hourNumber > 12) {
+    return undefined;
+  }
+
+  return build((hourNumber % 12) + (meridiem.toUpperCase() === "PM" ? 12 : 0));
+}
+
+function toSecond(second: string | undefined): number | undefined {
+  return second === undefined ? undefined : Number(second);
+}
+
+function isValidDate({ year, month, day, hour, minute, second }: DateParts): boolean {
+  if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || (second ?? 0) > 59) {
+    return false;
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day <= daysInMonth;
+}
+
+function toTimestamp(parts: DateParts, timezone: string): number {
+  const { year, month, day, hour, minute, second = 0, millisecond = 0, offset } = parts;
+
+  // Date.UTC maps years below 100 to the 1900s, so the year is set separately
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, millisecond);
+
+  const asUtc = date.getTime();
+
+  if (offset !== undefined) {
+    return asUtc - offset;
+  }
+
+  const fixedOffset = parseFixedOffset(timezone);
+  if (fixedOffset !== undefined) {
+    return asUtc - fixedOffset;
+  }
+
+  // the offset depends on the instant, so correct the guess once more around DST transitions
+  const firstGuess = asUtc - getZoneOffset(asUtc, timezone);
+  const secondOffset = getZoneOffset(firstGuess, timezone);
+
+  return asUtc - secondOffset;
+}
+
+function parseFixedOffset(timezone: string): number | undefined {
+  if (/^(?:z|utc|gmt)$/i.test(timezone)) {
+    return 0;
+  }
+
+  const match = timezone.match(/^(?:utc|gmt)?([+-])(\d{1,2})(?::?(\d{2}))?$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, sign, hours, minutes] = match;
+  const offset = (Number(hours) * 60 + Number(minutes ?? 0)) * 60_000;
+
+  return sign === "-" ? -offset : offset;
+}
+
+/**
+ * Checks a timezone option up front, instead of only once the first date without an offset is parsed.
+ *
+ * @param {string | undefined} timezone - An IANA timezone name or a fixed offset (e.g. "+02:00")
+ * @throws {RangeError} If the timezone is neither a fixed offset nor a timezone the runtime knows
+ */
+export function assertTimezone(timezone: string | undefined): void {
+  if (timezone !== undefined && parseFixedOffset(timezone) === undefined) {
+    getFormatter(timezone);
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    } catch {
+      throw new RangeError(`invalid timezone: ${timezone}`);
+    }
+
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
+
+function getZoneOffset(timestamp: number, timezone: string): number {
+  const formatter = getFormatter(timezone);
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(timestamp)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  const zoned = Date.UTC(parts.year!, parts.month! - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+  return zoned - (timestamp - (((timestamp % 1000) + 1000) % 1000));
+}
+
+const PATTERN_TOKENS: Record<string, { group: keyof PatternGroups; regex: string }> = {
+  YYYY: { group: "year", regex: "\\d{4}" },
+  YY: { group: "shortYear", regex: "\\d{2}" },
+  MMMM: { group: "monthName", regex: "\\p{L}+\\.?" },
+  MMM: { group: "monthName", regex: "\\p{L}+\\.?" },
+  MM: { group: "month", regex: "\\d{2}" },
+  M: { group: "month", regex: "\\d{1,2}" },
+  DD: { group: "day", regex: "\\d{2}" },
+  D: { group: "day", regex: "\\d{1,2}" },
+  HH: { group: "hour", regex: "\\d{2}" },
+  H: { group: "hour", regex: "\\d{1,2}" },
+  hh: { group: "hour12", regex: "\\d{2}" },
+  h: { group: "hour12", regex: "\\d{1,2}" },
+  mm: { group: "minute", regex: "\\d{2}" },
+  ss: { group: "second", regex: "\\d{2}" },
+  A: { group: "meridiem", regex: "[AP]M" },
+  a: { group: "meridiem", regex: "[AP]M" },
+};
+
+interface PatternGroups {
+  year: string;
+  shortYear: string;
+  monthName: string;
+  month: string;
+  day: string;
+  hour: string;
+  hour12: string;
+  minute: string;
+  second: string;
+  meridiem: string;
+}
+
+/**
+ * Compiles a date pattern (e.g. `YYYY-MMM-DD HH:mm`) into a parser for dates printed that way.
+ *
+ * Supported tokens are `YYYY`, `YY`, `MMMM` and `MMM` (month names), `MM`, `M`, `DD`, `D`, `HH`, `H`, `hh` and `h`
+ * (12 hour clock, with `A` or `a` for AM and PM), `mm` and `ss`. Whitespace matches any amount of whitespace,
+ * text in square brackets (e.g. `[at]`) and every other character is matched literally.
+ *
+ * @param {string} pattern - The pattern the dates are printed with
+ * @returns {(text: string, timezone?: string) => ParsedDate | undefined} A function that finds and parses the first date in a text
+ * @throws {Error} If the pattern doesn't contain a year, month, day, hour and minute
+ */
+export function compileDatePattern(pattern: string): (text: string, timezone?: string) => ParsedDate | undefined {
+  const groups = new Set<keyof PatternGroups>();
+  let source = "";
+
+  for (const [token, literal] of pattern.matchAll(/\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|DD|HH|hh|mm|ss|\s+|\S/g)) {
+    const definition = Object.hasOwn(PATTERN_TOKENS, token) ? PATTERN_TOKENS[token] : undefined;
+
+    if (definition) {
+      if (groups.has(definition.group)) {
+        throw new Error(`date pattern "${pattern}" contains ${token} more than once`);
+      }
+
+      groups.add(definition.group);
+      source += `(?<${definition.group}>${definition.regex})`;
+    } else if (literal !== undefined) {
+      source += escapeRegExp(literal);
+    } else {
+      source += /^\s+$/.test(token) ? "\\s+" : escapeRegExp(token);
+    }
+  }
+
+  const hasAll = (groups.has("year") || groups.has("shortYear"))
+    && (groups.has("month") || groups.has("monthName"))
+    && groups.has("day")
+    && (groups.has("hour") || (groups.has("hour12") && groups.has("meridiem")))
+    && groups.has("minute");
+
+  if (!hasAll) {
+    throw new Error(`date pattern "${pattern}" must contain a year, month, day, hour and minute`);
+  }
+
+  const regex = new RegExp(source, "iu");
+
+  return (text, timezone = "UTC") => {
+    const match = text.match(regex);
+    const values = match?.groups as Partial<PatternGroups> | undefined;
+    if (!match || !values) {
+      return undefined;
+    }
+
+    const shortYear = Number(values.shortYear);
+    const year = values.year !== undefined ? Number(values.year) : shortYear < 70 ? 2000 + shortYear : 1900 + shortYear;
+
+    const build = (month: number): DateParts | undefined => withHour(values.hour ?? values.hour12, values.hour12 !== undefined ? values.meridiem : undefined, (hour) => ({
+      year,
+      month,
+      day: Number(values.day),
+      hour,
+      minute: Number(values.minute),
+      second: toSecond(values.second),
+    }));
+
+    const parts = values.monthName !== undefined ? withMonth(values.monthName, build) : build(Number(values.month));
+
+    if (!parts || !isValidDate(parts)) {
+      return undefined;
+    }
+
+    return {
+      timestamp: toTimestamp(parts, timezone),
+      raw: match[0],
+      precision: parts.second === undefined ? "minute" : "second",
+    };
+  };
+}
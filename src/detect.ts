@@ -0,0 +1,185 @@
+import type { AutoIndexFormat, RegisteredFormat } from "./index";
+import { isCaddyHtml, isCaddyJson } from "./formats/caddy";
+import { isIis } from "./formats/iis";
+import { isLighttpd } from "./formats/lighttpd";
+import { isNginxHtml, isNginxJson, isNginxXml } from "./formats/nginx";
+import { isPython } from "./formats/python";
+import { isS3 } from "./formats/s3";
+import { detectRegisteredFormat } from "./registry";
+
+export type ServerFamily = "apache" | "nginx" | "lighttpd" | "caddy" | "python" | "iis" | "s3" | "custom" | "unknown";
+
+export interface FormatDetection {
+  /**
+   * The server software that rendered the listing, or "unknown" if the content isn't a recognized listing
+   */
+  family: ServerFamily;
+
+  /**
+   * The format of the listing, or undefined if the content isn't a recognized listing
+   */
+  format: AutoIndexFormat | RegisteredFormat | undefined;
+
+  /**
+   * How certain the detection is, from 0 (not a listing) to 1
+   */
+  confidence: number;
+
+  /**
+   * Human readable descriptions of the markers the detection was based on
+   */
+  evidence: string[];
+}
+
+/**
+ * Detects the server family and format of a directory listing.
+ *
+ * Unlike `inferFormat`, this doesn't fall back to a format when nothing matches. Pages that don't look
+ * like a directory listing at all (error pages, login walls, a `DirectoryIndex` index.html, ...) are
+ * reported with the "unknown" family, no format and a confidence of 0.
+ *
+ * Formats added with `registerFormat` are detected as well, and win over the built-in formats
+ * when their detector is at least as confident.
+ *
+ * @param {string} content - The content of the page to analyze
+ * @returns {FormatDetection} The detected family and format, with the confidence and evidence of the detection
+ *
+ * @example
+ * ```ts
+ * import { detectFormat } from 'apache-autoindex-parse';
+ *
+ * const detection = detectFormat(html);
+ * if (detection.family === "unknown") {
+ *   console.log("not a directory listing");
+ * }
+ * ```
+ */
+export function detectFormat(content: string): FormatDetection {
+  const builtin = detectBuiltinFormat(content);
+  const registered = detectRegisteredFormat(content);
+
+  return registered && registered.confidence >= builtin.confidence ? registered : builtin;
+}
+
+function detectBuiltinFormat(content: string): FormatDetection {
+  // caddy's json items also start with a name, so it has to be checked before nginx
+  if (isCaddyJson(content)) {
+    return detected("caddy", "caddy-json", 0.95, ["json array with \"is_dir\" items"]);
+  }
+
+  if (isNginxJson(content)) {
+    return detected("nginx", "nginx-json", 0.9, ["json array with \"name\" items"]);
+  }
+
+  if (isNginxXml(content)) {
+    return detected("nginx", "nginx-xml", 0.95, ["xml document with a <list> root"]);
+  }
+
+  if (isS3(content)) {
+    return detected("s3", "s3", 0.95, ["xml document with a <ListBucketResult> root"]);
+  }
+
+  const apacheEvidence = collectApacheEvidence(content);
+
+  // look for format parameter in href attributes
+  const formatMatch = content.match(/href="[^"]*[?&;]F=(\d)[^"]*"/);
+  if (formatMatch && formatMatch[1]) {
+    return detected("apache", `F${formatMatch[1]}` as AutoIndexFormat, 0.95, [`sort links with F=${formatMatch[1]}`, ...apacheEvidence]);
+  }
+
+  if (isLighttpd(content)) {
+    return detected("lighttpd", "lighttpd", 0.9, ["lighttpd directory listing table or footer"]);
+  }
+
+  if (isCaddyHtml(content)) {
+    return detected("caddy", "caddy", 0.9, ["caddy browse template markup"]);
+  }
+
+  if (isPython(content)) {
+    return detected("python", "python", 0.9, ["\"Directory listing for\" title"]);
+  }
+
+  if (isIis(content)) {
+    return detected("iis", "iis", 0.85, ["iis directory browsing markup"]);
+  }
+
+  // check for structural indicators
+  const hasPre = /<pre[^>]*>/.test(content);
+  const hasTable = /<table[^>]*>/.test(content);
+  const hasList = /<ul[^>]*>/.test(content);
+  const hasSortLinks = /href="\?C=/.test(content);
+
+  if (hasPre && !hasSortLinks && isNginxHtml(content)) {
+    const hasTitle = /<title>Index of /i.test(content);
+    return detected("nginx", "nginx", hasTitle ? 0.8 : 0.7, [
+      "listing in a <pre> after a rule or a \"../\" parent link",
+      ...(hasTitle ? ["\"Index of\" title"] : []),
+    ]);
+  }
+
+  // without an explicit format parameter, apache listings are only recognized by their markers
+  if (apacheEvidence.length === 0) {
+    return unknown();
+  }
+
+  const confidence = Math.min(0.5 + 0.1 * apacheEvidence.length, 0.9);
+
+  if (hasPre) {
+    return detected("apache", "F1", confidence, ["listing in a <pre>", ...apacheEvidence]);
+  }
+
+  if (hasTable) {
+    return detected("apache", "F2", confidence, ["listing in a <table>", ...apacheEvidence]);
+  }
+
+  if (hasList) {
+    return detected("apache", "F0", confidence, ["listing in a <ul>", ...apacheEvidence]);
+  }
+
+  return unknown();
+}
+
+/**
+ * The fallback for content without any listing markers, based on Apache's structural indicators.
+ */
+export function inferStructuralFormat(html: string): AutoIndexFormat {
+  if (/<pre[^>]*>/.test(html)) {
+    return "F1";
+  }
+
+  if (/<table[^>]*>/.test(html)) {
+    return "F2";
+  }
+
+  return "F0";
+}
+
+function collectApacheEvidence(content: string): string[] {
+  const evidence: string[] = [];
+
+  if (/<title>\s*Index of /i.test(content) || /<h1>\s*Index of /i.test(content)) {
+    evidence.push("\"Index of\" title");
+  }
+
+  if (/href="\?C=[NMSD](?:;|&amp;|&)O=[AD]/i.test(content)) {
+    evidence.push("sort links");
+  }
+
+  if (/>\s*Parent Directory\s*<\/a>/i.test(content)) {
+    evidence.push("\"Parent Directory\" link");
+  }
+
+  if (/<address>\s*Apache\b/i.test(content)) {
+    evidence.push("apache server signature");
+  }
+
+  return evidence;
+}
+
+function detected(family: ServerFamily, format: AutoIndexFormat, confidence: number, evidence: string[]): FormatDetection {
+  return { family, format, confidence, evidence };
+}
+
+function unknown(): FormatDetection {
+  return { family: "unknown", format: undefined, confidence: 0, evidence: [] };
+}
@@ -0,0 +1,160 @@
+import type { ParsedDate } from "./date";
+import type { FormatDetection } from "./detect";
+import type { AutoIndexFormat, Entry, RegisteredFormat } from "./index";
+import type { FileSize } from "./size";
+import { findDate, parseDate } from "./date";
+import { findAll, parseHtml } from "./html";
+import { exactSize, parseSize } from "./size";
+
+export type ParseWarningCode
+  = | "skipped-row"
+    | "invalid-date"
+    | "invalid-size"
+    | "malformed-content"
+    | "unrecognized-format"
+    | "empty-content"
+    | "no-entries";
+
+export interface ParseWarning {
+  /**
+   * What kind of problem was found:
+   * - "skipped-row": a row that looks like an entry, but couldn't be parsed
+   * - "invalid-date": a last modified date that couldn't be parsed
+   * - "invalid-size": a size that couldn't be parsed
+   * - "malformed-content": a json listing that isn't valid json, or a bucket listing whose pages can't be continued
+   * - "unrecognized-format": the format couldn't be detected, so it was guessed from the page's structure
+   * - "empty-content": the page was empty
+   * - "no-entries": the page has links, but none of them were parsed as entries
+   */
+  code: ParseWarningCode;
+
+  /**
+   * A human readable description of the problem
+   */
+  message: string;
+
+  /**
+   * The markup of the skipped row, or the text of the field that couldn't be parsed
+   */
+  raw?: string;
+}
+
+export interface ParseDiagnostics {
+  /**
+   * The format the page was parsed as
+   */
+  format: AutoIndexFormat | RegisteredFormat;
+
+  /**
+   * The detection the format was inferred from, undefined when the format was given
+   */
+  detection: FormatDetection | undefined;
+
+  /**
+   * The entries of the listing, exactly as `parse` returns them
+   */
+  entries: Entry[];
+
+  /**
+   * Every problem found while parsing, in the order they were found
+   */
+  warnings: ParseWarning[];
+}
+
+/**
+ * What the format parsers need besides the content, passed to every one of them.
+ */
+export interface ParseContext {
+  timezone: string;
+  warn: (warning: ParseWarning) => void;
+}
+
+// anything shaped like a date (e.g. "2024-03-01", "01-Mar-2024" or "3/1/2024"), to tell unparseable dates apart
+// from listings that don't print dates at all
+const DATE_LIKE = /\d{1,4}[-/.][a-z\d]{1,9}[-/.]\d{1,4}/i;
+
+export function looksLikeDate(text: string): boolean {
+  return DATE_LIKE.test(text);
+}
+
+/**
+ * Finds the date in a piece of listing text, warning when the text has something shaped like a date that isn't valid.
+ */
+export function findDateField(text: string, context: ParseContext): (ParsedDate & { index: number }) | undefined {
+  const date = findDate(text, context.timezone);
+  if (!date && looksLikeDate(text)) {
+    context.warn({ code: "invalid-date", message: `invalid last modified date "${text.trim()}"`, raw: text.trim() });
+  }
+
+  return date;
+}
+
+/**
+ * Parses a machine readable date (e.g. ISO 8601 or RFC 1123) from json and xml listings.
+ */
+export function parseDateField(value: unknown, context: ParseContext): ParsedDate | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const date = typeof value === "string" ? parseDate(value) : undefined;
+  if (!date) {
+    context.warn({ code: "invalid-date", message: `invalid last modified date "${String(value)}"`, raw: String(value) });
+  }
+
+  return date;
+}
+
+/**
+ * Parses a size as printed by the listing. Sizes are blank or "-" for directories, so only text that starts
+ * with a digit is expected to be a size.
+ */
+export function parseSizeField(text: string, context: ParseContext): FileSize | undefined {
+  const size = parseSize(text);
+  if (!size && /^\d/.test(text.trim())) {
+    context.warn({ code: "invalid-size", message: `invalid size "${text.trim()}"`, raw: text.trim() });
+  }
+
+  return size;
+}
+
+/**
+ * Parses an exact byte count from json and xml listings.
+ */
+export function parseByteCount(value: unknown, context: ParseContext): FileSize | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) {
+    return exactSize(value);
+  }
+
+  if (typeof value === "string" && /^\d+$/.test(value)) {
+    return exactSize(Number(value));
+  }
+
+  context.warn({ code: "invalid-size", message: `invalid size "${String(value)}"`, raw: String(value) });
+  return undefined;
+}
+
+export function warnSkippedRow(context: ParseContext, message: string, raw: string): void {
+  context.warn({ code: "skipped-row", message, raw });
+}
+
+/**
+ * Counts the links of a page that could point to entries, sort links (e.g. "?C=N;O=D") aside.
+ */
+export function countEntryLinks(html: string): number {
+  return findAll(parseHtml(html), (element) => element.name === "a" && !!element.attributes.href && !element.attributes.href.startsWith("?")).length;
+}
+
+/**
+ * Warns about a page without entries that has links, which listings have for every entry,
+ * so the page was most likely misparsed.
+ */
+export function warnNoEntries(links: number, context: Pick<ParseContext, "warn">): void {
+  if (links >= 3) {
+    context.warn({ code: "no-entries", message: `found ${links} links, but no entries` });
+  }
+}
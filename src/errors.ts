@@ -0,0 +1,94 @@
+import type { FormatDetection } from "./detect";
+import type { ParseWarningCode } from "./diagnostics";
+
+/**
+ * The base class of every error thrown by this package, to tell them apart from bugs in callbacks.
+ */
+export class AutoIndexError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "AutoIndexError";
+  }
+}
+
+/**
+ * Thrown when a listing couldn't be fetched, e.g. because of a DNS failure or a refused connection.
+ * The original error is available as `cause`.
+ */
+export class FetchError extends AutoIndexError {
+  /**
+   * The URL of the listing that couldn't be fetched
+   */
+  readonly url: string;
+
+  constructor(message: string, url: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "FetchError";
+    this.url = url;
+  }
+}
+
+/**
+ * Thrown when the server responded to the request for a listing with an unsuccessful status code.
+ */
+export class HttpError extends FetchError {
+  /**
+   * The status code of the response (e.g. 404 or 500)
+   */
+  readonly status: number;
+
+  /**
+   * The status text of the response (e.g. "Not Found")
+   */
+  readonly statusText: string;
+
+  /**
+   * How long the server asked to wait before retrying in its `Retry-After` header, in milliseconds
+   */
+  readonly retryAfter: number | undefined;
+
+  constructor(url: string, status: number, statusText: string, retryAfter?: number) {
+    super(`failed to fetch directory listing from ${url}: ${status} ${statusText}`, url);
+    this.name = "HttpError";
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown in strict mode when the content of a listing can't be parsed, e.g. because it's empty or isn't valid json.
+ */
+export class ParseError extends AutoIndexError {
+  /**
+   * The code of the warning that is reported for the same problem outside of strict mode
+   */
+  readonly code: ParseWarningCode;
+
+  /**
+   * The URL of the listing, when it was fetched by `traverse`
+   */
+  url?: string;
+
+  constructor(message: string, code: ParseWarningCode, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ParseError";
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when the content isn't recognized as a directory listing, with `requireListing` or in strict mode.
+ */
+export class FormatDetectionError extends ParseError {
+  /**
+   * The detection that failed to recognize the listing
+   */
+  readonly detection: FormatDetection;
+
+  constructor(detection: FormatDetection) {
+    super("content is not a recognized directory listing", "unrecognized-format");
+    this.name = "FormatDetectionError";
+    this.detection = detection;
+  }
+}
@@ -0,0 +1,101 @@
+import type { ParseContext } from "../diagnostics";
+import type { Entry } from "../index";
+import { parseByteCount, parseDateField, warnSkippedRow } from "../diagnostics";
+import { findAll, findFirst, hasClass, parseHtml, sourceOf, textContent } from "../html";
+import { createEntry } from "../lib";
+
+interface CaddyJsonItem {
+  name?: unknown;
+  size?: unknown;
+  url?: unknown;
+  mod_time?: unknown;
+  is_dir?: unknown;
+}
+
+export function isCaddyHtml(html: string): boolean {
+  return /href="https:\/\/caddyserver\.com"/i.test(html) || /<td class="size" data-size="\d+"/i.test(html);
+}
+
+export function isCaddyJson(content: string): boolean {
+  return /^\s*\[\s*\{[^{}]*"is_dir"\s*:/.test(content);
+}
+
+export function parseCaddy(html: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  for (const row of findAll(parseHtml(html), "tr")) {
+    if (findFirst(row, "th")) continue;
+
+    // the "Up" link has no name span, so it's skipped here
+    const link = findFirst(row, (element) => element.name === "a" && findFirst(element, (span) => hasClass(span, "name")) !== undefined);
+    const nameSpan = link && findFirst(link, (span) => hasClass(span, "name"));
+    const href = link?.attributes.href;
+    const name = nameSpan ? textContent(nameSpan) : "";
+    if (!href || !name) {
+      const up = findFirst(row, (element) => element.name === "a" && /^\.\.\/?$/.test(element.attributes.href ?? ""));
+      if (!up && findFirst(row, "td")) {
+        warnSkippedRow(context, "row has no link with a name", sourceOf(html, row));
+      }
+
+      continue;
+    }
+
+    const isDirectory = href.endsWith("/");
+
+    const size = findFirst(row, (element) => element.attributes["data-size"] !== undefined)?.attributes["data-size"];
+    const datetime = findFirst(row, "time")?.attributes.datetime;
+
+    entries.push(createEntry({
+      name,
+      href,
+      path: stripDotSlash(href),
+      isDirectory,
+      date: parseDateField(datetime, context),
+      size: !isDirectory ? parseByteCount(size, context) : undefined,
+    }));
+  }
+
+  return entries;
+}
+
+export function parseCaddyJson(content: string, context: ParseContext): Entry[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(content);
+  } catch {
+    context.warn({ code: "malformed-content", message: "content is not valid json" });
+    return [];
+  }
+
+  if (!Array.isArray(items)) {
+    context.warn({ code: "malformed-content", message: "content is not a json array" });
+    return [];
+  }
+
+  const entries: Entry[] = [];
+
+  for (const item of items as CaddyJsonItem[]) {
+    if (!item || typeof item.name !== "string" || typeof item.url !== "string") {
+      warnSkippedRow(context, "item has no name or url", JSON.stringify(item));
+      continue;
+    }
+
+    const isDirectory = item.is_dir === true;
+    const path = stripDotSlash(item.url);
+
+    entries.push(createEntry({
+      name: item.name,
+      href: item.url,
+      path: isDirectory && !path.endsWith("/") ? `${path}/` : path,
+      isDirectory,
+      date: parseDateField(item.mod_time, context),
+      size: !isDirectory ? parseByteCount(item.size, context) : undefined,
+    }));
+  }
+
+  return entries;
+}
+
+function stripDotSlash(href: string): string {
+  return href.startsWith("./") ? href.slice(2) : href;
+}
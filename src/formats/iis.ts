@@ -0,0 +1,61 @@
+import type { ParseContext } from "../diagnostics";
+import type { Entry } from "../index";
+import { findDateField, warnSkippedRow } from "../diagnostics";
+import { findFirst, parseHtml, sourceOf, splitLines, textContent } from "../html";
+import { createEntry } from "../lib";
+import { exactSize } from "../size";
+
+export function isIis(html: string): boolean {
+  return /\[To Parent Directory\]<\/A>/i.test(html) || (/<pre>/i.test(html) && /<A HREF="[^"]*">[^<]*<\/A><br>/.test(html));
+}
+
+export function parseIis(html: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  const pre = findFirst(parseHtml(html), "pre");
+  if (!pre) return entries;
+
+  // rows are separated by <br> and print the date and the size or <dir> before the link
+  for (const row of splitLines(pre, ["br"])) {
+    const index = row.findIndex((node) => typeof node !== "string" && node.name === "a");
+    const link = row[index];
+    if (link === undefined || typeof link === "string") {
+      // blank lines separate the parent link from the rows
+      if (sourceOf(html, row).trim()) {
+        warnSkippedRow(context, "row has no link", sourceOf(html, row));
+      }
+
+      continue;
+    }
+
+    const href = link.attributes.href;
+    const name = textContent(link);
+    if (name === "[To Parent Directory]") continue;
+
+    if (!href || !name) {
+      warnSkippedRow(context, "link has no href or text", sourceOf(html, row));
+      continue;
+    }
+
+    const beforeText = row.slice(0, index).map((node) => typeof node === "string" ? node : textContent(node)).join("").trim();
+    const isDirectory = /<dir>$/i.test(beforeText) || href.endsWith("/");
+    const sizeMatch = beforeText.match(/(\d+)$/);
+
+    entries.push(createEntry({
+      name,
+      href,
+      // links are absolute, but paths are relative to the listed directory
+      path: lastSegment(href, isDirectory),
+      isDirectory,
+      date: findDateField(beforeText, context),
+      size: !isDirectory && sizeMatch?.[1] ? exactSize(Number(sizeMatch[1])) : undefined,
+    }));
+  }
+
+  return entries;
+}
+
+function lastSegment(href: string, isDirectory: boolean): string {
+  const segment = href.replace(/\/$/, "").split("/").pop() ?? href;
+  return isDirectory ? `${segment}/` : segment;
+}
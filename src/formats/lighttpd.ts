@@ -0,0 +1,52 @@
+import type { ParseContext } from "../diagnostics";
+import type { HtmlElement } from "../html";
+import type { Entry } from "../index";
+import { findDateField, parseSizeField, warnSkippedRow } from "../diagnostics";
+import { childElements, findAll, findFirst, hasClass, parseHtml, sourceOf, textContent } from "../html";
+import { createEntry } from "../lib";
+
+export function isLighttpd(html: string): boolean {
+  return /<table[^>]*summary="Directory Listing"/i.test(html) || /<div class="foot">lighttpd/i.test(html);
+}
+
+export function parseLighttpd(html: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  // rows have a name, last modified, size and type cell, each marked by its class
+  for (const row of findAll(parseHtml(html), "tr")) {
+    if (findFirst(row, "th")) continue;
+
+    const cells = childElements(row, "td");
+    const cell = (className: string): HtmlElement | undefined => cells.find((td) => hasClass(td, className));
+
+    const nameCell = cell("n");
+    const link = nameCell && findFirst(nameCell, "a");
+    const href = link?.attributes.href;
+    const name = link ? textContent(link) : "";
+    if (href === "../" || name === "..") continue;
+
+    if (!href || !name) {
+      if (cells.length > 0) {
+        warnSkippedRow(context, nameCell ? "name cell has no link" : "row has no name cell", sourceOf(html, row));
+      }
+
+      continue;
+    }
+
+    const dateCell = cell("m");
+    const sizeCell = cell("s");
+    const typeCell = cell("t");
+
+    const isDirectory = href.endsWith("/") || (typeCell !== undefined && textContent(typeCell).trim() === "Directory");
+
+    entries.push(createEntry({
+      name,
+      href,
+      isDirectory,
+      date: dateCell ? findDateField(textContent(dateCell).trim(), context) : undefined,
+      size: !isDirectory && sizeCell ? parseSizeField(textContent(sizeCell).trim(), context) : undefined,
+    }));
+  }
+
+  return entries;
+}
@@ -0,0 +1,143 @@
+import type { ParseContext } from "../diagnostics";
+import type { Entry } from "../index";
+import { findDateField, parseByteCount, parseDateField, parseSizeField, warnSkippedRow } from "../diagnostics";
+import { findAll, findFirst, parseHtml, sourceOf, splitLines, textContent } from "../html";
+import { createEntry, recoverTruncatedName } from "../lib";
+
+interface NginxJsonItem {
+  name?: unknown;
+  type?: unknown;
+  mtime?: unknown;
+  size?: unknown;
+}
+
+export function isNginxHtml(html: string): boolean {
+  // nginx puts the listing directly after the heading rule and links to the parent as "../"
+  return /<hr>\s*<pre>/i.test(html) || /<a\s+href="\.\.\/">\.\.\/<\/a>/i.test(html);
+}
+
+export function isNginxJson(content: string): boolean {
+  return /^\s*\[\s*(?:\{\s*"name"\s*:|\])/.test(content);
+}
+
+export function isNginxXml(content: string): boolean {
+  return /^\s*<\?xml[^>]*\?>\s*<list>/i.test(content);
+}
+
+export function parseNginx(html: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  const pre = findFirst(parseHtml(html), "pre");
+  if (!pre) return entries;
+
+  // every row is a link followed by the date and the size on the same line
+  for (const line of splitLines(pre, [])) {
+    for (const [index, node] of line.entries()) {
+      if (typeof node === "string" || node.name !== "a") {
+        continue;
+      }
+
+      const href = node.attributes.href;
+      const text = textContent(node);
+
+      if (href === "../") {
+        continue;
+      }
+
+      if (!href || !text) {
+        warnSkippedRow(context, "link has no href or text", sourceOf(html, line));
+        continue;
+      }
+
+      const afterText = line.slice(index + 1).map((next) => typeof next === "string" ? next : textContent(next)).join("");
+
+      const isDirectory = href.endsWith("/");
+      const date = afterText ? findDateField(afterText, context) : undefined;
+      const sizeText = afterText.trim().split(/\s+/).pop();
+
+      // nginx cuts names longer than 50 characters to 47 characters followed by "..>"
+      const recoveredName = recoverTruncatedName(text, href);
+
+      entries.push(createEntry({
+        name: recoveredName ?? text,
+        href,
+        truncated: recoveredName !== undefined,
+        isDirectory,
+        date,
+        size: !isDirectory && sizeText ? parseSizeField(sizeText, context) : undefined,
+      }));
+    }
+  }
+
+  return entries;
+}
+
+export function parseNginxJson(content: string, context: ParseContext): Entry[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(content);
+  } catch {
+    context.warn({ code: "malformed-content", message: "content is not valid json" });
+    return [];
+  }
+
+  if (!Array.isArray(items)) {
+    context.warn({ code: "malformed-content", message: "content is not a json array" });
+    return [];
+  }
+
+  const entries: Entry[] = [];
+
+  for (const item of items as NginxJsonItem[]) {
+    if (!item || typeof item.name !== "string" || !item.name) {
+      warnSkippedRow(context, "item has no name", JSON.stringify(item));
+      continue;
+    }
+
+    const isDirectory = item.type === "directory";
+
+    entries.push(createEntry({
+      name: item.name,
+      href: encodeName(item.name, isDirectory),
+      isDirectory,
+      date: parseDateField(item.mtime, context),
+      size: parseByteCount(item.size, context),
+    }));
+  }
+
+  return entries;
+}
+
+export function parseNginxXml(content: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  const items = findAll(parseHtml(content), (element) => element.name === "directory" || element.name === "file" || element.name === "other");
+
+  for (const item of items) {
+    const name = textContent(item);
+
+    if (!name) {
+      warnSkippedRow(context, "item has no name", sourceOf(content, item));
+      continue;
+    }
+
+    const isDirectory = item.name === "directory";
+    const mtime = item.attributes.mtime;
+    const size = item.attributes.size;
+
+    entries.push(createEntry({
+      name,
+      href: encodeName(name, isDirectory),
+      isDirectory,
+      date: parseDateField(mtime, context),
+      size: parseByteCount(size, context),
+    }));
+  }
+
+  return entries;
+}
+
+function encodeName(name: string, isDirectory: boolean): string {
+  const encoded = encodeURIComponent(name);
+  return isDirectory ? `${encoded}/` : encoded;
+}
@@ -0,0 +1,40 @@
+import type { ParseContext } from "../diagnostics";
+import type { Entry } from "../index";
+import { warnSkippedRow } from "../diagnostics";
+import { findAll, findFirst, parseHtml, sourceOf, textContent } from "../html";
+import { createEntry } from "../lib";
+
+export function isPython(html: string): boolean {
+  return /<title>Directory listing for /i.test(html);
+}
+
+export function parsePython(html: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  for (const item of findAll(parseHtml(html), "li")) {
+    const link = findFirst(item, "a");
+    const href = link?.attributes.href;
+    const text = link ? textContent(link).trim() : "";
+
+    // http.server doesn't link to the parent itself, but proxies and patched servers do
+    if (href === "../" || href === "..") {
+      continue;
+    }
+
+    if (!href || !text) {
+      warnSkippedRow(context, link ? "link has no href or text" : "list item has no link", sourceOf(html, item));
+      continue;
+    }
+
+    // symlinks are displayed with a trailing "@", which isn't part of their name
+    const name = text.endsWith("@") && !href.endsWith("@") && !href.endsWith("%40") ? text.slice(0, -1) : text;
+
+    entries.push(createEntry({
+      name,
+      href,
+      isDirectory: href.endsWith("/"),
+    }));
+  }
+
+  return entries;
+}
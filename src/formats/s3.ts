@@ -0,0 +1,130 @@
+import type { ParseContext } from "../diagnostics";
+import type { HtmlElement } from "../html";
+import type { Entry } from "../index";
+import { parseByteCount, parseDateField, warnSkippedRow } from "../diagnostics";
+import { childElements, findFirst, parseHtml, sourceOf, textContent } from "../html";
+import { createEntry, safeDecodeURIComponent } from "../lib";
+
+export interface S3ListPage {
+  /**
+   * The objects and common prefixes of the page, relative to the listed prefix
+   */
+  entries: Entry[];
+
+  /**
+   * The full key of every common prefix of the page by its entry, to list it with. Entry names are trimmed
+   * and relative, so they can't be turned back into the key
+   */
+  prefixKeys: Map<Entry, string>;
+
+  /**
+   * The prefix the page was listed with
+   */
+  prefix: string;
+
+  /**
+   * Whether the bucket has more keys than were returned on this page
+   */
+  isTruncated: boolean;
+
+  /**
+   * The token to pass as `continuation-token` to list the next page
+   */
+  nextContinuationToken: string | undefined;
+}
+
+export function isS3(content: string): boolean {
+  return /^\s*(?:<\?xml[^>]*\?>\s*)?<ListBucketResult\b/i.test(content);
+}
+
+// bucket traversal doesn't report warnings
+const SILENT_CONTEXT: ParseContext = { timezone: "UTC", warn: () => {} };
+
+export function parseS3(content: string, context: ParseContext): Entry[] {
+  return parseS3Page(content, context).entries;
+}
+
+export function parseS3Page(content: string, context: ParseContext = SILENT_CONTEXT): S3ListPage {
+  const document = parseHtml(content);
+  const result = findFirst(document, "listbucketresult") ?? document;
+
+  // keys are percent-encoded when the listing was requested with `encoding-type=url`
+  const isUrlEncoded = readTag(result, "encodingtype")?.toLowerCase() === "url";
+  const decodeKey = (key: string): string => isUrlEncoded ? safeDecodeURIComponent(key.replace(/\+/g, " ")) : key;
+
+  const prefix = decodeKey(readTag(result, "prefix") ?? "");
+  const entries: Entry[] = [];
+  const prefixKeys = new Map<Entry, string>();
+
+  for (const commonPrefix of childElements(result, "commonprefixes")) {
+    const key = readTag(commonPrefix, "prefix");
+    const decodedKey = decodeKey(key ?? "");
+    const name = relativeKey(decodedKey, prefix).replace(/\/$/, "");
+
+    if (!name) {
+      if (!key) {
+        warnSkippedRow(context, "common prefix has no prefix", sourceOf(content, commonPrefix));
+      }
+
+      continue;
+    }
+
+    const entry = createEntry({
+      name,
+      href: `${encodeKey(name)}/`,
+      isDirectory: true,
+    });
+
+    entries.push(entry);
+    prefixKeys.set(entry, decodedKey);
+  }
+
+  for (const contents of childElements(result, "contents")) {
+    const key = readTag(contents, "key");
+    const name = relativeKey(decodeKey(key ?? ""), prefix);
+
+    if (!key) {
+      warnSkippedRow(context, "object has no key", sourceOf(content, contents));
+      continue;
+    }
+
+    // the zero-byte "folder" object some clients create for the prefix itself
+    if (!name || name.endsWith("/")) {
+      continue;
+    }
+
+    const lastModified = readTag(contents, "lastmodified");
+    const size = readTag(contents, "size");
+    const etag = readTag(contents, "etag");
+
+    entries.push(createEntry({
+      name,
+      href: encodeKey(name),
+      isDirectory: false,
+      date: parseDateField(lastModified, context),
+      size: parseByteCount(size, context),
+      etag,
+    }));
+  }
+
+  return {
+    entries,
+    prefixKeys,
+    prefix,
+    isTruncated: readTag(result, "istruncated")?.toLowerCase() === "true",
+    nextContinuationToken: readTag(result, "nextcontinuationtoken"),
+  };
+}
+
+function readTag(element: HtmlElement, name: string): string | undefined {
+  const child = childElements(element, name)[0];
+  return child ? textContent(child) : undefined;
+}
+
+function relativeKey(key: string, prefix: string): string {
+  return key.startsWith(prefix) ? key.slice(prefix.length) : key;
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
@@ -0,0 +1,70 @@
+import type { FormatDefinition } from "../registry";
+import { defineLayout } from "../layout";
+
+/**
+ * Apaxy themes Apache's `HTMLTable` listings with `IndexStyleSheet`, which marks rows as odd and even
+ * and gives every cell a class.
+ */
+const apaxy = defineLayout({
+  name: "apaxy",
+  family: "apache",
+  detect: (html) => /apaxy/i.test(html) && /class=["']?indexcolname/i.test(html),
+  layout: {
+    row: "tr.odd, tr.even",
+    link: "td.indexcolname a",
+    date: "td.indexcollastmod",
+    datePattern: "YYYY-MM-DD HH:mm",
+    size: "td.indexcolsize",
+    directory: "img[alt=\"[DIR]\"]",
+  },
+});
+
+/**
+ * h5ai builds its listing with JavaScript, but renders a plain table into `#fallback` for clients without it.
+ * It links to entries with absolute paths and prints sizes in kilobytes, e.g. "2560 KB".
+ */
+const h5ai = defineLayout({
+  name: "h5ai",
+  detect: (html) => /\/_h5ai\//.test(html) && /id=["']?fallback/i.test(html),
+  layout: {
+    row: "#fallback tr",
+    link: "td.fb-n a",
+    date: "td.fb-d",
+    datePattern: "YYYY-MM-DD HH:mm",
+    size: "td.fb-s",
+    directory: "img[alt=folder]",
+    skip: "th",
+  },
+});
+
+/**
+ * nginx's fancyindex module, with its default `fancyindex_time_format` of "%Y-%b-%d %H:%M".
+ */
+const fancyindex = defineLayout({
+  name: "fancyindex",
+  family: "nginx",
+  detect: (html) => /<table id=["']?list/i.test(html) && /<td class=["']?link/i.test(html),
+  layout: {
+    row: "#list tbody tr",
+    link: "td.link a",
+    date: "td.date",
+    datePattern: "YYYY-MMM-DD HH:mm",
+    size: "td.size",
+  },
+});
+
+/**
+ * Layouts for popular listing themes. They aren't registered by default, register the ones your servers use:
+ *
+ * @example
+ * ```ts
+ * import { layoutPresets, registerFormat } from 'apache-autoindex-parse';
+ *
+ * registerFormat(layoutPresets.fancyindex);
+ * ```
+ */
+export const layoutPresets = {
+  apaxy,
+  h5ai,
+  fancyindex,
+} satisfies Record<string, FormatDefinition>;
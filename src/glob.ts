@@ -0,0 +1,239 @@
+import { escapeRegExp } from "./lib";
+
+export interface PathFilter {
+  /**
+   * Globs of the paths to include, all paths are included when there are none.
+   * Negated globs (e.g. `!**\/*.md`) exclude paths instead
+   */
+  include?: string | string[];
+
+  /**
+   * Globs of the paths to exclude. Negated globs (e.g. `!ucd/Unihan/readme.txt`) are exceptions,
+   * which include paths that would be excluded otherwise
+   */
+  exclude?: string | string[];
+}
+
+export interface PathMatcher {
+  /**
+   * Whether a path is included by the filter, paths of directories end with a slash
+   */
+  matches: (path: string) => boolean;
+
+  /**
+   * Whether a directory could contain paths that are included by the filter, directories that can't don't have to be listed
+   */
+  mayContain: (directoryPath: string) => boolean;
+}
+
+// a segment of "**", which matches any number of segments
+const GLOBSTAR = Symbol("globstar");
+
+interface CompiledGlob {
+  segments: (RegExp | typeof GLOBSTAR)[];
+
+  /**
+   * Whether the glob ends with a slash, which only matches directories
+   */
+  directoryOnly: boolean;
+}
+
+/**
+ * Matches a path against a glob, like `ucd/**\/*.txt` or `emoji/{12,13}.0/`.
+ *
+ * `*` and `?` match any characters and any single character within a segment, `**` matches any number of segments
+ * and `{a,b}` matches either of the alternatives. A glob that matches a directory matches everything in it as well,
+ * and a glob that ends with a slash only matches directories. Paths are relative, a leading slash is ignored.
+ *
+ * @param {string} pattern - The glob
+ * @param {string} path - The path, paths of directories end with a slash
+ * @returns {boolean} Whether the path matches
+ */
+export function matchGlob(pattern: string, path: string): boolean {
+  return compileGlob(pattern).some((glob) => matchPath(glob, path));
+}
+
+/**
+ * Creates a matcher for include and exclude globs, see `matchGlob` for the syntax of the globs.
+ *
+ * A path is included when it matches one of the include globs (or there are none), unless it matches
+ * one of the exclude globs and none of their exceptions.
+ *
+ * @param {PathFilter} filter - The include and exclude globs
+ * @returns {PathMatcher} The matcher
+ *
+ * @example
+ * ```ts
+ * import { createPathMatcher } from 'apache-autoindex-parse';
+ *
+ * const matcher = createPathMatcher({ include: 'ucd/**\/*.txt', exclude: 'ucd/Unihan/' });
+ *
+ * matcher.matches('ucd/emoji/emoji-data.txt'); // true
+ * matcher.mayContain('ucd/Unihan/'); // false
+ * ```
+ */
+export function createPathMatcher(filter: PathFilter): PathMatcher {
+  const includes: CompiledGlob[] = [];
+  const excludes: CompiledGlob[] = [];
+  const exceptions: CompiledGlob[] = [];
+
+  for (const pattern of toArray(filter.include)) {
+    const negated = pattern.startsWith("!");
+    (negated ? excludes : includes).push(...compileGlob(negated ? pattern.slice(1) : pattern));
+  }
+
+  for (const pattern of toArray(filter.exclude)) {
+    const negated = pattern.startsWith("!");
+    (negated ? exceptions : excludes).push(...compileGlob(negated ? pattern.slice(1) : pattern));
+  }
+
+  const isExcluded = (path: string): boolean =>
+    excludes.some((glob) => matchPath(glob, path)) && !exceptions.some((glob) => matchPath(glob, path));
+
+  return {
+    matches: (path) => (includes.length === 0 || includes.some((glob) => matchPath(glob, path))) && !isExcluded(path),
+    mayContain: (directoryPath) => {
+      if (includes.length > 0 && !includes.some((glob) => mayContainMatch(glob, directoryPath))) {
+        return false;
+      }
+
+      // excluding a directory excludes its contents, unless an exception could match one of them
+      return !excludes.some((glob) => matchPath(glob, directoryPath))
+        || exceptions.some((glob) => mayContainMatch(glob, directoryPath));
+    },
+  };
+}
+
+function toArray(patterns: string | string[] | undefined): string[] {
+  if (patterns === undefined) {
+    return [];
+  }
+
+  return typeof patterns === "string" ? [patterns] : patterns;
+}
+
+function compileGlob(pattern: string): CompiledGlob[] {
+  return expandBraces(pattern).map((expanded) => {
+    const trimmed = expanded.replace(/^(?:\.?\/)+/, "");
+    const directoryOnly = trimmed.endsWith("/");
+
+    return {
+      segments: splitPath(trimmed).map((segment) => segment === "**" ? GLOBSTAR : compileSegment(segment)),
+      directoryOnly,
+    };
+  });
+}
+
+function compileSegment(segment: string): RegExp {
+  let source = "";
+  for (const char of segment) {
+    source += char === "*" ? "[^/]*" : char === "?" ? "[^/]" : escapeRegExp(char);
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expands the first brace group with alternatives and, recursively, the rest of the pattern.
+ * Braces without a comma are kept as they are, like shells do.
+ */
+function expandBraces(pattern: string): string[] {
+  for (let start = pattern.indexOf("{"); start !== -1; start = pattern.indexOf("{", start + 1)) {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let from = start + 1;
+
+    for (let index = start + 1; index < pattern.length; index++) {
+      const char = pattern[index];
+      if (char === "{") {
+        depth++;
+      } else if (char === "}" && depth > 0) {
+        depth--;
+      } else if (char === "," && depth === 0) {
+        alternatives.push(pattern.slice(from, index));
+        from = index + 1;
+      } else if (char === "}") {
+        if (alternatives.length === 0) {
+          break;
+        }
+
+        alternatives.push(pattern.slice(from, index));
+
+        const prefix = pattern.slice(0, start);
+        const suffix = pattern.slice(index + 1);
+        return alternatives.flatMap((alternative) => expandBraces(`${prefix}${alternative}${suffix}`));
+      }
+    }
+  }
+
+  return [pattern];
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+/**
+ * Whether the glob matches the path or one of the directories it is in.
+ */
+function matchPath(glob: CompiledGlob, path: string): boolean {
+  const segments = splitPath(path);
+  const isDirectory = path.endsWith("/");
+
+  for (let length = 1; length <= segments.length; length++) {
+    if (glob.directoryOnly && length === segments.length && !isDirectory) {
+      continue;
+    }
+
+    if (matchSegments(glob.segments, 0, segments.slice(0, length), 0)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function matchSegments(pattern: CompiledGlob["segments"], patternIndex: number, path: string[], pathIndex: number): boolean {
+  if (patternIndex === pattern.length) {
+    return pathIndex === path.length;
+  }
+
+  const segment = pattern[patternIndex]!;
+  if (segment === GLOBSTAR) {
+    for (let index = pathIndex; index <= path.length; index++) {
+      if (matchSegments(pattern, patternIndex + 1, path, index)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  return pathIndex < path.length
+    && segment.test(path[pathIndex]!)
+    && matchSegments(pattern, patternIndex + 1, path, pathIndex + 1);
+}
+
+/**
+ * Whether the glob could match a path in the directory, which is the case when the directory matches
+ * the start of the glob (or the whole glob, as a glob that matches a directory matches its contents).
+ */
+function mayContainMatch(glob: CompiledGlob, directoryPath: string): boolean {
+  const segments = splitPath(directoryPath);
+
+  const matchPrefix = (patternIndex: number, pathIndex: number): boolean => {
+    if (pathIndex === segments.length) {
+      return true;
+    }
+
+    // the whole glob matched one of the directories above, or "**" matches anything below
+    const segment = glob.segments[patternIndex];
+    if (segment === undefined || segment === GLOBSTAR) {
+      return true;
+    }
+
+    return segment.test(segments[pathIndex]!) && matchPrefix(patternIndex + 1, pathIndex + 1);
+  };
+
+  return matchPrefix(0, 0);
+}
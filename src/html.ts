@@ -0,0 +1,478 @@
+import { decodeHtmlEntities } from "./lib";
+
+export interface HtmlElement {
+  type: "element";
+
+  /**
+   * The lowercased tag name, "#document" for the root
+   */
+  name: string;
+
+  /**
+   * The attributes with lowercased names and entity-decoded values, attributes without a value are empty strings
+   */
+  attributes: Record<string, string>;
+
+  children: HtmlNode[];
+
+  /**
+   * The offset of the start tag in the source
+   */
+  start: number;
+
+  /**
+   * The offset after the end tag in the source, or where the element was implicitly closed
+   */
+  end: number;
+}
+
+export interface HtmlText {
+  type: "text";
+
+  /**
+   * The entity-decoded text
+   */
+  value: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+export type HtmlToken = (
+  | { type: "start"; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: "end"; name: string }
+  | { type: "text"; value: string }
+) & {
+  /**
+   * The offsets of the token in the source
+   */
+  start: number;
+  end: number;
+};
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// their content is never markup, <title> and <textarea> still decode entities
+const RAW_TEXT_ELEMENTS = new Set(["script", "style"]);
+const ESCAPABLE_RAW_TEXT_ELEMENTS = new Set(["title", "textarea"]);
+
+const BLOCK_SCOPE = ["div", "li", "td", "th", "table", "blockquote", "body"];
+
+/**
+ * Elements whose end tag may be omitted: the start tag of the key closes the open elements listed in `closes`,
+ * but never past the elements listed in `scope` (e.g. a <li> in a nested <ul> doesn't close its parent <li>)
+ */
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; scope: string[] }> = {
+  a: { closes: ["a"], scope: [] },
+  li: { closes: ["li"], scope: ["ul", "ol"] },
+  dt: { closes: ["dt", "dd"], scope: ["dl"] },
+  dd: { closes: ["dt", "dd"], scope: ["dl"] },
+  option: { closes: ["option"], scope: ["select"] },
+  tr: { closes: ["tr", "td", "th"], scope: ["table", "thead", "tbody", "tfoot"] },
+  td: { closes: ["td", "th"], scope: ["tr", "table"] },
+  th: { closes: ["td", "th"], scope: ["tr", "table"] },
+  thead: { closes: ["thead", "tbody", "tfoot", "tr", "td", "th"], scope: ["table"] },
+  tbody: { closes: ["thead", "tbody", "tfoot", "tr", "td", "th"], scope: ["table"] },
+  tfoot: { closes: ["thead", "tbody", "tfoot", "tr", "td", "th"], scope: ["table"] },
+  ...Object.fromEntries(
+    ["address", "div", "dl", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "ol", "p", "pre", "table", "ul"]
+      .map((name) => [name, { closes: ["p"], scope: BLOCK_SCOPE }]),
+  ),
+};
+
+const TAG_NAME = /[a-z][^\s/>]*/iy;
+// a quoted value that is never closed runs to the end of the input, like it does in browsers
+const ATTRIBUTE = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"?|'([^']*)'?|([^\s>]+)))?/y;
+const WHITESPACE = /\s*/y;
+
+/**
+ * Splits HTML (or XML) into start tags, end tags and text in a single pass.
+ *
+ * Attributes may be double-quoted, single-quoted, unquoted or without a value, tag and attribute names are
+ * lowercased and entities are decoded. Comments, doctypes and processing instructions are dropped, the content of
+ * <script> and <style> is kept as text and CDATA sections become text. Markup that can't be a tag (e.g. a lone "<")
+ * is kept as text and a tag that is never closed ends at the end of the input.
+ *
+ * @param {string} html - The markup to tokenize
+ * @returns {HtmlToken[]} The tokens in document order
+ */
+export function tokenize(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  let position = 0;
+  let textStart = 0;
+
+  const pushText = (end: number, decode = true): void => {
+    if (end > textStart) {
+      const value = html.slice(textStart, end);
+      tokens.push({ type: "text", value: decode ? decodeHtmlEntities(value) : value, start: textStart, end });
+    }
+  };
+
+  // skips past `terminator`, or to the end of the input when it's missing
+  const skipPast = (from: number, terminator: string): number => {
+    const end = html.indexOf(terminator, from);
+    return end === -1 ? html.length : end + terminator.length;
+  };
+
+  while (position < html.length) {
+    const open = html.indexOf("<", position);
+    if (open === -1) {
+      break;
+    }
+
+    const next = html[open + 1];
+
+    if (next === "!" || next === "?") {
+      pushText(open);
+
+      if (html.startsWith("<![CDATA[", open)) {
+        textStart = open + 9;
+        position = skipPast(textStart, "]]>");
+        pushText(position === html.length ? position : position - 3, false);
+      } else {
+        position = skipPast(open, html.startsWith("<!--", open) ? "-->" : ">");
+      }
+
+      textStart = position;
+      continue;
+    }
+
+    if (next === "/") {
+      TAG_NAME.lastIndex = open + 2;
+      const nameMatch = TAG_NAME.exec(html);
+
+      pushText(open);
+      position = skipPast(open, ">");
+      textStart = position;
+
+      // anything else after "</" is a bogus comment
+      if (nameMatch) {
+        tokens.push({ type: "end", name: nameMatch[0].toLowerCase(), start: open, end: position });
+      }
+
+      continue;
+    }
+
+    TAG_NAME.lastIndex = open + 1;
+    const nameMatch = TAG_NAME.exec(html);
+    if (!nameMatch) {
+      // not a tag, the "<" is part of the text
+      position = open + 1;
+      continue;
+    }
+
+    pushText(open);
+
+    const name = nameMatch[0].toLowerCase();
+    const attributes: Record<string, string> = {};
+    let selfClosing = false;
+    position = TAG_NAME.lastIndex;
+
+    while (position < html.length) {
+      WHITESPACE.lastIndex = position;
+      WHITESPACE.exec(html);
+      position = WHITESPACE.lastIndex;
+
+      const char = html[position];
+      if (char === ">") {
+        position++;
+        break;
+      }
+
+      if (char === "/") {
+        selfClosing = html[position + 1] === ">";
+        position++;
+        continue;
+      }
+
+      ATTRIBUTE.lastIndex = position;
+      const attributeMatch = ATTRIBUTE.exec(html);
+      if (!attributeMatch) {
+        // stray quotes and the like
+        position++;
+        continue;
+      }
+
+      const attributeName = attributeMatch[1]!.toLowerCase();
+      if (!(attributeName in attributes)) {
+        attributes[attributeName] = decodeHtmlEntities(attributeMatch[2] ?? attributeMatch[3] ?? attributeMatch[4] ?? "");
+      }
+
+      selfClosing = false;
+      position = ATTRIBUTE.lastIndex;
+    }
+
+    tokens.push({ type: "start", name, attributes, selfClosing, start: open, end: position });
+    textStart = position;
+
+    if (!selfClosing && (RAW_TEXT_ELEMENTS.has(name) || ESCAPABLE_RAW_TEXT_ELEMENTS.has(name))) {
+      const closeRegex = new RegExp(`</${name}\\s*>`, "gi");
+      closeRegex.lastIndex = position;
+
+      // an unclosed <title> would swallow the whole page, so it's treated as regular markup instead
+      const close = closeRegex.exec(html);
+      if (close) {
+        pushText(close.index, ESCAPABLE_RAW_TEXT_ELEMENTS.has(name));
+        position = close.index + close[0].length;
+        tokens.push({ type: "end", name, start: close.index, end: position });
+        textStart = position;
+      }
+    }
+  }
+
+  pushText(html.length);
+
+  return tokens;
+}
+
+/**
+ * Builds a tree from HTML (or XML) the way browsers forgive broken markup: end tags that were left out
+ * (e.g. of <li>, <tr> and <td>) are implied, void elements never have children and stray end tags are ignored.
+ *
+ * @param {string} html - The markup to parse
+ * @returns {HtmlElement} The "#document" root holding the top level nodes
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: "element", name: "#document", attributes: {}, children: [], start: 0, end: html.length };
+  const stack: HtmlElement[] = [root];
+
+  for (const token of tokenize(html)) {
+    if (token.type === "text") {
+      const children = stack.at(-1)!.children;
+      const last = children.at(-1);
+
+      if (last?.type === "text") {
+        last.value += token.value;
+      } else {
+        children.push({ type: "text", value: token.value });
+      }
+
+      continue;
+    }
+
+    if (token.type === "start") {
+      closeImpliedElements(stack, token.name, token.start);
+
+      const element: HtmlElement = {
+        type: "element",
+        name: token.name,
+        attributes: token.attributes,
+        children: [],
+        start: token.start,
+        end: token.end,
+      };
+      stack.at(-1)!.children.push(element);
+
+      if (!token.selfClosing && !VOID_ELEMENTS.has(token.name)) {
+        stack.push(element);
+      }
+
+      continue;
+    }
+
+    // the end tag closes the nearest open element with its name, together with everything opened inside it
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i]!.name === token.name) {
+        closeElements(stack, i + 1, token.start);
+        closeElements(stack, i, token.end);
+        break;
+      }
+    }
+  }
+
+  closeElements(stack, 1, html.length);
+
+  return root;
+}
+
+function closeElements(stack: HtmlElement[], from: number, end: number): void {
+  for (let i = from; i < stack.length; i++) {
+    stack[i]!.end = end;
+  }
+
+  stack.length = Math.min(stack.length, from);
+}
+
+function closeImpliedElements(stack: HtmlElement[], name: string, end: number): void {
+  const rule = IMPLIED_END_TAGS[name];
+  if (!rule) {
+    return;
+  }
+
+  let closeFrom = -1;
+  for (let i = stack.length - 1; i > 0; i--) {
+    const open = stack[i]!.name;
+    if (rule.scope.includes(open)) {
+      break;
+    }
+
+    if (rule.closes.includes(open)) {
+      closeFrom = i;
+    }
+  }
+
+  if (closeFrom !== -1) {
+    closeElements(stack, closeFrom, end);
+  }
+}
+
+/**
+ * Finds all descendants of a node in document order.
+ *
+ * @param {HtmlElement} node - The node to search
+ * @param {string | ((element: HtmlElement) => boolean)} match - A lowercased tag name or a predicate
+ * @returns {HtmlElement[]} The matching elements
+ */
+export function findAll(node: HtmlElement, match: string | ((element: HtmlElement) => boolean)): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  walk(node, match, (element) => {
+    found.push(element);
+    return true;
+  });
+
+  return found;
+}
+
+export function findFirst(node: HtmlElement, match: string | ((element: HtmlElement) => boolean)): HtmlElement | undefined {
+  let found: HtmlElement | undefined;
+  walk(node, match, (element) => {
+    found = element;
+    return false;
+  });
+
+  return found;
+}
+
+function walk(
+  node: HtmlElement,
+  match: string | ((element: HtmlElement) => boolean),
+  visit: (element: HtmlElement) => boolean,
+): void {
+  const matches = typeof match === "string" ? (element: HtmlElement) => element.name === match : match;
+
+  // iterative, so deeply nested (unclosed) markup can't overflow the stack
+  const pending: HtmlNode[] = [...node.children].reverse();
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current.type === "text") {
+      continue;
+    }
+
+    if (matches(current) && !visit(current)) {
+      return;
+    }
+
+    for (let i = current.children.length - 1; i >= 0; i--) {
+      pending.push(current.children[i]!);
+    }
+  }
+}
+
+/**
+ * The elements that are direct children of a node.
+ */
+export function childElements(node: HtmlElement, name?: string): HtmlElement[] {
+  return node.children.filter((child): child is HtmlElement => child.type === "element" && (name === undefined || child.name === name));
+}
+
+/**
+ * The concatenated text of a node and all of its descendants.
+ */
+export function textContent(node: HtmlNode): string {
+  if (node.type === "text") {
+    return node.value;
+  }
+
+  let text = "";
+  const pending: HtmlNode[] = [node];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current.type === "text") {
+      text += current.value;
+      continue;
+    }
+
+    for (let i = current.children.length - 1; i >= 0; i--) {
+      pending.push(current.children[i]!);
+    }
+  }
+
+  return text;
+}
+
+export function hasClass(element: HtmlElement, className: string): boolean {
+  return element.attributes.class?.split(/\s+/).includes(className) ?? false;
+}
+
+export type InlineLine = (string | HtmlElement)[];
+
+/**
+ * Splits the content of a preformatted listing (e.g. Apache's F1 or nginx' <pre>) into lines.
+ *
+ * Links and images are kept as elements, the text of any other inline markup is kept as text. Besides newlines,
+ * lines are broken by the given elements (e.g. <hr>, which Apache puts on the same line as the first row).
+ *
+ * @param {HtmlElement} element - The element holding the listing
+ * @param {string[]} breaks - The names of the elements that break lines
+ * @returns {InlineLine[]} The lines, each as a list of text and elements
+ */
+export function splitLines(element: HtmlElement, breaks: string[]): InlineLine[] {
+  const lines: InlineLine[] = [[]];
+
+  const pending: HtmlNode[] = [...element.children].reverse();
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+
+    if (current.type === "text") {
+      const parts = current.value.split("\n");
+      lines.at(-1)!.push(parts[0]!);
+
+      for (const part of parts.slice(1)) {
+        lines.push([part]);
+      }
+
+      continue;
+    }
+
+    if (breaks.includes(current.name)) {
+      lines.push([]);
+    } else if (current.name === "a" || current.name === "img") {
+      lines.at(-1)!.push(current);
+    } else {
+      for (let i = current.children.length - 1; i >= 0; i--) {
+        pending.push(current.children[i]!);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Returns the markup of an element, or of a line of a preformatted listing (whose text is already decoded).
+ *
+ * @param {string} html - The source the element was parsed from
+ * @param {HtmlElement | InlineLine} node - The element or line
+ * @returns {string} The markup of the element or line
+ */
+export function sourceOf(html: string, node: HtmlElement | InlineLine): string {
+  if (!Array.isArray(node)) {
+    return html.slice(node.start, node.end);
+  }
+
+  return node.map((part) => typeof part === "string" ? part : html.slice(part.start, part.end)).join("");
+}
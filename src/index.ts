@@ -1,22 +1,115 @@
-import { trimLeadingSlash, trimTrailingSlash } from "./lib";
+import type { DatePrecision } from "./date";
+import type { FormatDetection } from "./detect";
+import type { ParseContext, ParseDiagnostics, ParseWarning, ParseWarningCode } from "./diagnostics";
+import type { EntryIcon, EntryKind } from "./kind";
+import type { PageMetadata } from "./page";
+import type { FileSize } from "./size";
+import { assertTimezone } from "./date";
+import { detectFormat, inferStructuralFormat } from "./detect";
+import { countEntryLinks, findDateField, looksLikeDate, parseSizeField, warnNoEntries, warnSkippedRow } from "./diagnostics";
+import { FormatDetectionError, ParseError } from "./errors";
+import { parseCaddy, parseCaddyJson } from "./formats/caddy";
+import { parseIis } from "./formats/iis";
+import { parseLighttpd } from "./formats/lighttpd";
+import { parseNginx, parseNginxJson, parseNginxXml } from "./formats/nginx";
+import { parsePython } from "./formats/python";
+import { parseS3 } from "./formats/s3";
+import { childElements, findAll, findFirst, parseHtml, sourceOf, splitLines, textContent } from "./html";
+import { parseIcon } from "./kind";
+import { createEntry, isWithinDirectory, recoverTruncatedName, toDirectoryUrl, trimLeadingSlash, trimTrailingSlash } from "./lib";
+import { parsePageMetadata } from "./page";
+import { assertKnownFormat, getRegisteredFormat } from "./registry";
+import { parseSize } from "./size";
+
+export type { DatePrecision, ParsedDate } from "./date";
+export { parseDate } from "./date";
+export type { FormatDetection, ServerFamily } from "./detect";
+export { detectFormat } from "./detect";
+export type { ParseContext, ParseDiagnostics, ParseWarning, ParseWarningCode } from "./diagnostics";
+export { AutoIndexError, FetchError, FormatDetectionError, HttpError, ParseError } from "./errors";
+export { layoutPresets } from "./formats/themes";
+export type { PathFilter, PathMatcher } from "./glob";
+export { createPathMatcher, matchGlob } from "./glob";
+export type { EntryIcon, EntryKind } from "./kind";
+export { inferEntryKind } from "./kind";
+export type { LayoutDefinition, LayoutField, LayoutSpec } from "./layout";
+export { compileLayout, defineLayout } from "./layout";
+export type { PageMetadata, PageSection, PageSort, ServerSignature, SortColumn, SortDirection } from "./page";
+export type { FormatDefinition } from "./registry";
+export { registerFormat, unregisterFormat } from "./registry";
+export type { FileSize } from "./size";
+export { parseSize } from "./size";
+export type { StreamParser, StreamSource } from "./stream";
+export { createStreamParser, parseStream } from "./stream";
 
 interface BaseEntry {
   /**
-   * The name of the entry
+   * The name of the entry, with HTML entities and percent-encoding decoded
    */
   name: string;
 
   /**
-   * The path of the entry relative to the root of the auto-indexed directory
+   * The decoded path of the entry relative to the root of the auto-indexed directory
    *
    * For directories, this path ends with a trailing slash ("/")
    */
   path: string;
 
+  /**
+   * The link target exactly as the server sent it (still percent-encoded), for building request URLs
+   *
+   * Formats without links (e.g. nginx's json output) use the percent-encoded name
+   */
+  href: string;
+
+  /**
+   * The absolute URL of the entry, resolved against `pageUrl` like a browser resolves the link,
+   * only set when parsing with `pageUrl`
+   */
+  url?: string;
+
+  /**
+   * Whether the entry resolves outside the listed directory (e.g. a link to another host),
+   * only set for such entries when `externalEntries` is "keep"
+   */
+  external?: boolean;
+
+  /**
+   * Whether the listing printed a shortened name (e.g. because of Apache's `NameWidth`),
+   * in which case `name` was recovered from the href
+   */
+  truncated?: boolean;
+
   /**
    * The last modified timestamp of the entry in milliseconds since epoch
    */
   lastModified: number | undefined;
+
+  /**
+   * The last modified date exactly as it was printed in the listing
+   */
+  lastModifiedRaw?: string;
+
+  /**
+   * The precision of the printed last modified date, listings usually only print minutes
+   */
+  lastModifiedPrecision?: DatePrecision;
+
+  /**
+   * The description of the entry from the Description column (set by `AddDescription` or `ScanHTMLTitles`),
+   * with inline HTML stripped and entities decoded
+   */
+  description?: string;
+
+  /**
+   * The normalized kind of the entry, inferred from its icon or, when there is none, its extension
+   */
+  kind: EntryKind;
+
+  /**
+   * The icon rendered next to the entry in fancy-indexed listings
+   */
+  icon?: EntryIcon;
 }
 
 export type FileEntry = BaseEntry & {
@@ -24,6 +117,16 @@ export type FileEntry = BaseEntry & {
    * The type of the entry (always "file" for file entries)
    */
   type: "file";
+
+  /**
+   * The size of the file as printed in the listing, or undefined if the listing has no size column
+   */
+  size: FileSize | undefined;
+
+  /**
+   * The ETag of the object, as returned by S3-compatible bucket listings (including its quotes)
+   */
+  etag?: string;
 };
 
 export type DirectoryEntry = BaseEntry & {
@@ -35,20 +138,101 @@ export type DirectoryEntry = BaseEntry & {
 
 export type Entry = FileEntry | DirectoryEntry;
 
-export type AutoIndexFormat = "F0" | "F1" | "F2";
+export type AutoIndexFormat
+  = | "F0"
+    | "F1"
+    | "F2"
+    | "nginx"
+    | "nginx-json"
+    | "nginx-xml"
+    | "lighttpd"
+    | "caddy"
+    | "caddy-json"
+    | "python"
+    | "iis"
+    | "s3";
+
+/**
+ * The formats added with `registerFormat` by name, the values are unused. Declare your own formats
+ * through declaration merging, so their names are accepted as `format`:
+ *
+ * ```ts
+ * declare module "apache-autoindex-parse" {
+ *   interface RegisteredFormats {
+ *     intranet: true;
+ *   }
+ * }
+ * ```
+ *
+ * The layout presets are declared already, but still have to be registered before they are used.
+ */
+export interface RegisteredFormats {
+  apaxy: true;
+  h5ai: true;
+  fancyindex: true;
+}
+
+/**
+ * The name of a format added with `registerFormat` that was declared in `RegisteredFormats`
+ */
+export type RegisteredFormat = Extract<keyof RegisteredFormats, string>;
 
 export interface ParseOptions {
   /**
-   * Optional format specification of the auto-index page (will be inferred if not provided)
+   * Optional format specification of the auto-index page (will be inferred if not provided),
+   * either a built-in format or one added with `registerFormat`
    * @default undefined
    */
-  format?: AutoIndexFormat;
+  format?: AutoIndexFormat | RegisteredFormat;
 
   /**
    * Optional base path to prepend to all entry paths
    * @default ""
    */
   basePath?: string;
+
+  /**
+   * Optional timezone the listing's dates are printed in, as an IANA timezone name (e.g. "Europe/Copenhagen")
+   * or a fixed offset (e.g. "+02:00")
+   * @default "UTC"
+   */
+  timezone?: string;
+
+  /**
+   * Whether to throw instead of parsing pages that aren't recognized as a directory listing
+   * (e.g. error pages or a `DirectoryIndex` index.html), only used when the format is inferred
+   * @default false
+   */
+  requireListing?: boolean;
+
+  /**
+   * Optional callback invoked for every row that was skipped and every field that couldn't be parsed,
+   * use `parseWithDiagnostics` to collect them instead
+   * @default undefined
+   */
+  onWarning?: (warning: ParseWarning) => void;
+
+  /**
+   * Whether to throw a `ParseError` instead of returning an empty array for content that can't be parsed
+   * (e.g. empty content, invalid json or a page with links but no entries), implies `requireListing`
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Optional URL the listing was fetched from, to resolve the absolute `url` of every entry against.
+   * It's treated as the URL of the listed directory, so a missing trailing slash is added
+   * @default undefined
+   */
+  pageUrl?: string | URL;
+
+  /**
+   * What to do with entries that resolve outside the listed directory, like links to its parents,
+   * to other hosts or to the directory itself (e.g. sort links): "drop" them, or "keep" them with `external: true`.
+   * Only used with `pageUrl`
+   * @default "drop"
+   */
+  externalEntries?: "drop" | "keep";
 }
 
 /**
@@ -72,7 +256,7 @@ export function parse(html: string): Entry[];
  * Parses HTML content of an auto-indexed directory listing into a structured format.
  *
  * @param {string} html - The HTML content of the auto-indexed directory page to parse
- * @param {AutoIndexFormat} format - Format specification of the auto-index page
+ * @param {AutoIndexFormat | RegisteredFormat} format - Format specification of the auto-index page
  * @returns {Entry[]} An array of entries representing the parsed directory structure, or empty array if parsing fails
  *
  * @example
@@ -84,7 +268,7 @@ export function parse(html: string): Entry[];
  * console.log(result); // Array of file and directory entries
  * ```
  */
-export function parse(html: string, format?: AutoIndexFormat): Entry[];
+export function parse(html: string, format?: AutoIndexFormat | RegisteredFormat): Entry[];
 
 /**
  * Parses HTML content of an auto-indexed directory listing into a structured format.
@@ -92,6 +276,7 @@ export function parse(html: string, format?: AutoIndexFormat): Entry[];
  * @param {string} html - The HTML content of the auto-indexed directory page to parse
  * @param {ParseOptions} options - Parse options including format and basePath
  * @returns {Entry[]} An array of entries representing the parsed directory structure, or empty array if parsing fails
+ * @throws {ParseError} If `strict` is set and the content can't be parsed
  *
  * @example
  * ```ts
@@ -104,42 +289,105 @@ export function parse(html: string, format?: AutoIndexFormat): Entry[];
  */
 export function parse(html: string, options: ParseOptions): Entry[];
 
-export function parse(html: string, optionsOrFormat?: ParseOptions | AutoIndexFormat): Entry[] {
-  let entries: Entry[] = [];
-  if (!html) {
-    return entries;
+export function parse(html: string, optionsOrFormat?: ParseOptions | AutoIndexFormat | RegisteredFormat): Entry[] {
+  // Handle backward compatibility: if options is a string, treat it as format
+  const options = typeof optionsOrFormat === "string" ? { format: optionsOrFormat } : optionsOrFormat ?? {};
+
+  return parseListing(html, options).entries;
+}
+
+/**
+ * Parses HTML content of an auto-indexed directory listing, reporting everything that didn't parse cleanly.
+ *
+ * Besides the entries, this returns the format the page was parsed as (and how it was detected) and a warning
+ * for every row that was skipped and every date or size that couldn't be parsed, as well as for pages whose
+ * format couldn't be detected or that have links but no entries.
+ *
+ * @param {string} html - The HTML content of the auto-indexed directory page to parse
+ * @param {ParseOptions} options - Parse options including format, basePath and timezone
+ * @returns {ParseDiagnostics} The entries, the format and the warnings
+ *
+ * @example
+ * ```ts
+ * import { parseWithDiagnostics } from 'apache-autoindex-parse';
+ *
+ * const html = await fetch('http://example.com/files/').then(res => res.text());
+ * const { entries, warnings } = parseWithDiagnostics(html);
+ * for (const warning of warnings) {
+ *   console.warn(warning.code, warning.message);
+ * }
+ * ```
+ */
+export function parseWithDiagnostics(html: string, options: ParseOptions = {}): ParseDiagnostics {
+  const warnings: ParseWarning[] = [];
+
+  const listing = parseListing(html, {
+    ...options,
+    onWarning: (warning) => {
+      warnings.push(warning);
+      options.onWarning?.(warning);
+    },
+  });
+
+  return { ...listing, warnings };
+}
+
+// the warnings about the page as a whole, which strict mode throws for
+const STRICT_WARNINGS = new Set<ParseWarningCode>(["empty-content", "malformed-content", "no-entries"]);
+
+function parseListing(html: string, options: ParseOptions): Omit<ParseDiagnostics, "warnings"> {
+  const context: ParseContext = {
+    timezone: options.timezone ?? "UTC",
+    warn: (warning) => {
+      if (options.strict && STRICT_WARNINGS.has(warning.code)) {
+        throw new ParseError(warning.message, warning.code);
+      }
+
+      options.onWarning?.(warning);
+    },
+  };
+
+  let format = options.format;
+  let detection: FormatDetection | undefined;
+
+  if (format) {
+    assertKnownFormat(format);
   }
 
-  // Handle backward compatibility: if options is a string, treat it as format
-  let format: AutoIndexFormat | undefined;
-  let basePath: string | undefined;
-
-  if (typeof optionsOrFormat === "string") {
-    format = optionsOrFormat;
-  } else if (optionsOrFormat) {
-    format = optionsOrFormat.format;
-    basePath = optionsOrFormat.basePath;
+  assertTimezone(options.timezone);
+
+  const directoryUrl = options.pageUrl !== undefined ? toDirectoryUrl(options.pageUrl) : undefined;
+
+  if (!html.trim()) {
+    context.warn({ code: "empty-content", message: "content is empty" });
+    return { format: format ?? "F0", detection, entries: [] };
   }
 
   if (!format) {
-    format = inferFormat(html);
-  }
+    detection = detectFormat(html);
+    if (!detection.format && (options.requireListing || options.strict)) {
+      throw new FormatDetectionError(detection);
+    }
 
-  if (format === "F0") {
-    entries = parseF0(html);
+    format = detection.format ?? inferStructuralFormat(html);
+    if (!detection.format) {
+      context.warn({ code: "unrecognized-format", message: `content is not a recognized directory listing, parsed as ${format}` });
+    }
   }
 
-  if (format === "F1") {
-    entries = parseF1(html);
+  let entries = parseFormat(html, format, context);
+
+  if (entries.length === 0) {
+    warnNoEntries(countEntryLinks(html), context);
   }
 
-  if (format === "F2") {
-    entries = parseF2(html);
+  if (directoryUrl) {
+    entries = resolveEntryUrls(entries, directoryUrl, options.externalEntries ?? "drop");
   }
 
   // Apply basePath if provided
-  if (basePath) {
-    const normalizedBasePath = basePath.startsWith("/") ? basePath : `/${basePath}`;
+  if (options.basePath) {
+    const normalizedBasePath = options.basePath.startsWith("/") ? options.basePath : `/${options.basePath}`;
     const basePathWithoutTrailing = trimTrailingSlash(normalizedBasePath);
 
     entries = entries.map((entry) => ({
@@ -148,247 +396,308 @@ export function parse(html: string, optionsOrFormat?: ParseOptions | AutoIndexFo
     }));
   }
 
-  return entries;
+  return { format, detection, entries };
 }
 
-/**
- * Infers the AutoIndexFormat from HTML content.
- *
- * This function examines the links on the page to determine the format
- * of an Apache AutoIndex page. It looks for URL parameters that indicate
- * the format (e.g., "F=2" in "?C=N;O=D;F=2").
- *
- * @param {string} html - The HTML content to analyze
- * @returns {AutoIndexFormat} The inferred format as an AutoIndexFormat string (e.g., "F0", "F1", "F2", etc.)
- */
-export function inferFormat(html: string): AutoIndexFormat {
-  // look for format parameter in href attributes
-  const formatMatch = html.match(/href="[^"]*[?&]F=(\d)[^"]*"/);
-  if (formatMatch && formatMatch[1]) {
-    return `F${formatMatch[1]}` as AutoIndexFormat;
-  }
+function resolveEntryUrls(entries: Entry[], directoryUrl: URL, externalEntries: "drop" | "keep"): Entry[] {
+  const resolved: Entry[] = [];
 
-  // check for structural indicators
-  const hasPre = /<pre[^>]*>/.test(html);
-  const hasTable = /<table[^>]*>/.test(html);
+  for (const entry of entries) {
+    let url: URL | undefined;
+    try {
+      url = new URL(entry.href, directoryUrl);
+    } catch {
+      // hrefs that can't be resolved (e.g. a malformed host) can't point into the directory either
+    }
 
-  if (hasPre) {
-    return "F1";
+    const external = !url || !isWithinDirectory(url, directoryUrl);
+    if (external && externalEntries === "drop") {
+      continue;
+    }
+
+    resolved.push({
+      ...entry,
+      ...(url ? { url: url.href } : {}),
+      ...(external ? { external } : {}),
+    });
   }
 
-  if (hasTable) {
-    return "F2";
+  return resolved;
+}
+
+function parseFormat(html: string, format: AutoIndexFormat | RegisteredFormat, context: ParseContext): Entry[] {
+  switch (format) {
+    case "F0":
+      return parseF0(html, context);
+    case "F1":
+      return parseF1(html, context);
+    case "F2":
+      return parseF2(html, context);
+    case "nginx":
+      return parseNginx(html, context);
+    case "nginx-json":
+      return parseNginxJson(html, context);
+    case "nginx-xml":
+      return parseNginxXml(html, context);
+    case "lighttpd":
+      return parseLighttpd(html, context);
+    case "caddy":
+      return parseCaddy(html, context);
+    case "caddy-json":
+      return parseCaddyJson(html, context);
+    case "python":
+      return parsePython(html, context);
+    case "iis":
+      return parseIis(html, context);
+    case "s3":
+      return parseS3(html, context);
+    default:
+      return getRegisteredFormat(format)!.parse(html, context);
   }
+}
 
-  return "F0";
+export interface ParsedPage extends PageMetadata {
+  /**
+   * The format the page was parsed as
+   */
+  format: AutoIndexFormat | RegisteredFormat;
+
+  /**
+   * The entries of the listing, exactly as `parse` returns them
+   */
+  entries: Entry[];
 }
 
-function parseF0(html: string): Entry[] {
-  const entries: Entry[] = [];
+/**
+ * Parses an auto-indexed directory listing together with the metadata around it.
+ *
+ * Besides the entries, this returns the page title and listed path, the `HeaderName` and `ReadmeName`
+ * content Apache inserts before and after the listing, the server signature and the sort order
+ * the page was rendered with.
+ *
+ * @param {string} html - The HTML content of the auto-indexed directory page to parse
+ * @param {ParseOptions} options - Parse options including format, basePath and timezone
+ * @returns {ParsedPage} The entries and the metadata of the page
+ *
+ * @example
+ * ```ts
+ * import { parsePage } from 'apache-autoindex-parse';
+ *
+ * const html = await fetch('http://example.com/files/').then(res => res.text());
+ * const page = parsePage(html);
+ * console.log(page.server?.version); // e.g. "2.4.62"
+ * console.log(page.readme?.text); // the release notes from README.html
+ * ```
+ */
+export function parsePage(html: string, options: ParseOptions = {}): ParsedPage {
+  const { format, entries } = parseListing(html, options);
+
+  return {
+    format,
+    entries,
+    ...parsePageMetadata(html, format, entries),
+  };
+}
 
-  // match <li><a href="...">...</a></li> patterns
-  const linkRegex = /<li[^>]*>\s*<a\s+href="([^"]*)"[^>]*>([^<]+)<\/a>\s*<\/li>/gi;
-  let match;
+/**
+ * Infers the AutoIndexFormat from HTML content.
+ *
+ * This uses `detectFormat` to recognize the listings of Apache, nginx, lighttpd, Caddy, Python's http.server,
+ * IIS and S3-compatible buckets, as well as the formats added with `registerFormat`. Pages without any listing markers
+ * fall back to Apache's structural indicators (a `<pre>` for F1, a `<table>` for F2 and F0 otherwise), use `detectFormat`
+ * to tell them apart.
+ *
+ * @param {string} html - The HTML content to analyze
+ * @returns {AutoIndexFormat | RegisteredFormat} The inferred format as an AutoIndexFormat string (e.g., "F0", "F1", "F2", "nginx", etc.)
+ */
+export function inferFormat(html: string): AutoIndexFormat | RegisteredFormat {
+  return detectFormat(html).format ?? inferStructuralFormat(html);
+}
 
-  // eslint-disable-next-line no-cond-assign
-  while ((match = linkRegex.exec(html)) !== null) {
-    const [, href, name] = match;
+function parseF0(html: string, context: ParseContext): Entry[] {
+  const entries: Entry[] = [];
+
+  for (const item of findAll(parseHtml(html), "li")) {
+    const link = findFirst(item, "a");
+    const href = link?.attributes.href;
+    const name = link ? textContent(link).trim() : "";
 
-    if (!href || !name || name.trim() === "Parent Directory") {
+    if (name === "Parent Directory") {
       continue;
     }
 
-    const cleanName = name.trim();
-    const isDirectory = href.endsWith("/");
-
-    const normalizedName = trimTrailingSlash(cleanName);
-    const normalizedPath = normalizePath(href, isDirectory);
-
-    if (isDirectory) {
-      entries.push({
-        type: "directory",
-        name: normalizedName,
-        path: normalizedPath,
-        lastModified: undefined,
-      });
-    } else {
-      entries.push({
-        type: "file",
-        name: normalizedName,
-        path: normalizedPath,
-        lastModified: undefined,
-      });
+    if (!href || !name) {
+      warnSkippedRow(context, link ? "link has no href or text" : "list item has no link", sourceOf(html, item));
+      continue;
     }
+
+    entries.push(createEntry({
+      name,
+      href,
+      isDirectory: href.endsWith("/"),
+    }));
   }
 
   return entries;
 }
 
-function parseF1(html: string): Entry[] {
+function parseF1(html: string, context: ParseContext): Entry[] {
   const entries: Entry[] = [];
 
-  // extract content from <pre> tag
-  const preMatch = html.match(/<pre[^>]*>([\s\S]*?)<\/pre>/i);
-  if (!preMatch || !preMatch[1]) return entries;
+  // find the <pre> holding the listing, plain text headers are wrapped in a <pre> as well
+  const pre = findAll(parseHtml(html), "pre").find((element) => findFirst(element, "a") !== undefined);
+  if (!pre) return entries;
 
-  const preContent = preMatch[1];
+  // Apache puts the header rule on the same line as the first row
+  for (const line of splitLines(pre, ["hr"])) {
+    for (const [index, node] of line.entries()) {
+      if (typeof node === "string" || node.name !== "a") {
+        continue;
+      }
 
-  // match links with surrounding context for date extraction
-  // this regex captures the link and the text around it to extract dates
-  const linkRegex = /<a\s+href="([^"]*)"[^>]*>([^<]*)<\/a>([^<\n]*)/gi;
-  let match;
+      const href = node.attributes.href;
+      const text = textContent(node).trim();
 
-  // eslint-disable-next-line no-cond-assign
-  while ((match = linkRegex.exec(preContent)) !== null) {
-    const [, href, name, afterText] = match;
+      // icons are links without text when `IconsAreLinks` is set
+      if (text === "Parent Directory" || href?.startsWith("?") || (!text && findFirst(node, "img"))) {
+        continue;
+      }
 
-    if (!href || !name || name.trim() === "Parent Directory" || href.startsWith("?")) {
-      continue;
-    }
+      if (!href || !text) {
+        warnSkippedRow(context, "link has no href or text", sourceOf(html, line));
+        continue;
+      }
+
+      const isDirectory = href.endsWith("/");
 
-    const cleanName = name.trim();
-    const isDirectory = href.endsWith("/");
-
-    // extract date from the text after the link
-    let lastModified;
-    if (afterText) {
-      const dateMatch = afterText.match(/(\d{2}-\w{3}-\d{4}\s+\d{2}:\d{2}|\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2})/);
-      if (dateMatch && dateMatch[0]) {
-        const date = new Date(dateMatch[0]);
-        if (!Number.isNaN(date.getTime())) {
-          lastModified = date.getTime();
+      // the icon is rendered before the link on the same row
+      const icon = parseIcon(line.slice(0, index).filter((previous) => typeof previous !== "string"));
+
+      // the rest of the row runs up to the next icon or link
+      const nextIndex = line.findIndex((next, nextIndex) => nextIndex > index && typeof next !== "string");
+      const afterText = line.slice(index + 1, nextIndex === -1 ? undefined : nextIndex).join("");
+
+      // extract date, size and description from the text after the link
+      let date;
+      let size;
+      let description;
+      if (afterText) {
+        let sizeText = afterText;
+        date = findDateField(afterText, context);
+        if (date) {
+          sizeText = afterText.slice(date.index + date.raw.length);
         }
+
+        // the size column directly follows the date column
+        let descriptionText = sizeText;
+        const sizeMatch = sizeText.match(/^\s*(\S+)/);
+        if (sizeMatch && sizeMatch[1]) {
+          // a date that couldn't be parsed was reported already, it isn't an invalid size as well
+          size = date || !looksLikeDate(sizeMatch[1]) ? parseSizeField(sizeMatch[1], context) : parseSize(sizeMatch[1]);
+
+          if (size) {
+            descriptionText = sizeText.slice(sizeMatch[0].length);
+          }
+        }
+
+        // everything after the size column is the description
+        description = descriptionText.trim() || undefined;
       }
-    }
 
-    const normalizedName = trimTrailingSlash(cleanName.trim());
-    const normalizedPath = normalizePath(href, isDirectory);
-
-    if (isDirectory) {
-      entries.push({
-        type: "directory",
-        name: normalizedName,
-        path: normalizedPath,
-        lastModified,
-      });
-    } else {
-      entries.push({
-        type: "file",
-        name: normalizedName,
-        path: normalizedPath,
-        lastModified,
-      });
+      // names longer than `NameWidth` are shortened to end with "..>"
+      const recoveredName = recoverTruncatedName(text, href);
+
+      entries.push(createEntry({
+        name: recoveredName ?? text,
+        href,
+        truncated: recoveredName !== undefined,
+        isDirectory,
+        date,
+        size,
+        description,
+        icon,
+      }));
     }
   }
 
   return entries;
 }
 
-function parseF2(html: string): Entry[] {
+function parseF2(html: string, context: ParseContext): Entry[] {
   const entries: Entry[] = [];
 
-  // match table rows, excluding header rows and hr rows
-  const rowRegex = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
-  let match;
-
-  // eslint-disable-next-line no-cond-assign
-  while ((match = rowRegex.exec(html)) !== null) {
-    const rowContent = match[1];
-
-    if (!rowContent) continue;
-
-    // skip rows with th elements or hr elements
-    if (/<th[^>]*>/.test(rowContent) || /<hr[^>]*>/.test(rowContent)) {
+  for (const row of findAll(parseHtml(html), "tr")) {
+    // skip header rows and hr rows
+    if (findFirst(row, (element) => element.name === "th" || element.name === "hr")) {
       continue;
     }
 
-    // extract cells
-    const cellRegex = /<td[^>]*>([\s\S]*?)<\/td>/gi;
-    const cells = [];
-    let cellMatch;
-
-    // eslint-disable-next-line no-cond-assign
-    while ((cellMatch = cellRegex.exec(rowContent)) !== null) {
-      if (cellMatch[1] !== undefined) {
-        cells.push(cellMatch[1]);
+    const cells = childElements(row, "td");
+    if (cells.length < 3) {
+      // rows of other tables on the page (e.g. in the HeaderName file) don't link to entries
+      if (findFirst(row, "a")) {
+        warnSkippedRow(context, `row has ${cells.length} cells instead of at least 3`, sourceOf(html, row));
       }
-    }
 
-    if (cells.length < 3) continue;
+      continue;
+    }
 
-    const iconCell = cells[0];
-    const linkCell = cells[1];
-    const dateCell = cells[2];
+    const [iconCell, linkCell, dateCell, sizeCell, descriptionCell] = cells;
 
     // check for parent directory icon
-    if (iconCell && /alt="\[PARENTDIR\]"/.test(iconCell)) {
+    if (iconCell && findAll(iconCell, "img").some((img) => img.attributes.alt === "[PARENTDIR]")) {
       continue;
     }
 
-    // extract link information
-    if (!linkCell) continue;
-
-    const linkMatch = linkCell.match(/<a\s+href="([^"]*)"[^>]*>([^<]*)<\/a>/i);
-    if (!linkMatch || !linkMatch[1] || !linkMatch[2]) continue;
-
-    const [, href, name] = linkMatch;
+    // extract link information, the icon may be a link as well (`IconsAreLinks`)
+    const link = linkCell && findFirst(linkCell, (element) => element.name === "a" && textContent(element).trim() !== "");
+    const href = link?.attributes.href;
+    const text = link ? textContent(link).trim() : "";
 
     // skip root path links and parent directory
-    if (href === "/" || name.trim() === "Parent Directory") {
+    if (href === "/" || text === "Parent Directory") {
+      continue;
+    }
+
+    if (!href || !text) {
+      warnSkippedRow(context, link ? "link has no href" : "row has no link", sourceOf(html, row));
       continue;
     }
 
-    const cleanName = name.trim();
-    if (!cleanName) continue;
+    const icon = iconCell ? parseIcon([iconCell]) : undefined;
 
     // determine if it's a directory
-    const isDirectory = (iconCell && /alt="\[DIR\]"/.test(iconCell)) || href.endsWith("/");
+    const isDirectory = icon?.alt === "[DIR]" || href.endsWith("/");
 
     // parse date
-    let lastModified;
-    if (dateCell) {
-      const dateText = dateCell.replace(/<[^>]*>/g, "").trim();
-      if (dateText && dateText !== "\xA0" && dateText !== "&nbsp;") {
-        const date = new Date(dateText);
-        if (!Number.isNaN(date.getTime())) {
-          lastModified = date.getTime();
-        }
+    const date = dateCell ? findDateField(textContent(dateCell).trim(), context) : undefined;
+
+    // parse size
+    let size;
+    if (sizeCell) {
+      const sizeText = textContent(sizeCell).replace(/\xA0/g, " ").trim();
+      if (sizeText) {
+        size = parseSizeField(sizeText, context);
       }
     }
 
-    const normalizedName = trimTrailingSlash(cleanName.trim());
-    const normalizedPath = normalizePath(href, isDirectory);
-
-    if (isDirectory) {
-      entries.push({
-        type: "directory",
-        name: normalizedName,
-        path: normalizedPath,
-        lastModified,
-      });
-    } else {
-      entries.push({
-        type: "file",
-        name: normalizedName,
-        path: normalizedPath,
-        lastModified,
-      });
-    }
+    // parse description
+    const description = descriptionCell ? textContent(descriptionCell).trim() || undefined : undefined;
+
+    // names longer than `NameWidth` are shortened to end with "..>"
+    const recoveredName = recoverTruncatedName(text, href);
+
+    entries.push(createEntry({
+      name: recoveredName ?? text,
+      href,
+      truncated: recoveredName !== undefined,
+      isDirectory,
+      date,
+      size,
+      description,
+      icon,
+    }));
   }
 
   return entries;
 }
-
-function normalizePath(rawPath: string, isDirectory: boolean): string {
-  const trimmed = trimTrailingSlash(rawPath);
-
-  if (!isDirectory) {
-    return trimmed;
-  }
-
-  if (trimmed === "/") {
-    return trimmed;
-  }
-
-  return `${trimmed}/`;
-}
@@ -0,0 +1,127 @@
+import type { HtmlElement, HtmlNode } from "./html";
+import { findAll } from "./html";
+
+export type EntryKind = "directory" | "text" | "image" | "audio" | "video" | "archive" | "document" | "binary" | "unknown";
+
+export interface EntryIcon {
+  /**
+   * The `src` attribute of the icon image (e.g. "/icons/compressed.gif")
+   */
+  src: string | undefined;
+
+  /**
+   * The `alt` attribute of the icon image (e.g. "[CMP]")
+   */
+  alt: string | undefined;
+}
+
+// alt texts used by apache's default `AddIconByType`, `AddIconByEncoding` and `AddIcon` directives
+const ALT_KINDS: Record<string, EntryKind> = {
+  "[DIR]": "directory",
+  "[TXT]": "text",
+  "[IMG]": "image",
+  "[SND]": "audio",
+  "[VID]": "video",
+  "[CMP]": "archive",
+};
+
+// icon file names shipped in apache's /icons/ directory
+const ICON_KINDS: Record<string, EntryKind> = {
+  "folder": "directory",
+  "dir": "directory",
+  "text": "text",
+  "c": "text",
+  "p": "text",
+  "f": "text",
+  "script": "text",
+  "tex": "text",
+  "hand.right": "text",
+  "image1": "image",
+  "image2": "image",
+  "image3": "image",
+  "sound1": "audio",
+  "sound2": "audio",
+  "movie": "video",
+  "compressed": "archive",
+  "tar": "archive",
+  "binhex": "archive",
+  "uuencoded": "archive",
+  "layout": "document",
+  "pdf": "document",
+  "ps": "document",
+  "a": "document",
+  "dvi": "document",
+  "binary": "binary",
+  "bomb": "binary",
+};
+
+const EXTENSION_KINDS: Record<string, EntryKind> = {};
+
+for (const [kind, extensions] of [
+  ["text", ["txt", "md", "rst", "csv", "tsv", "json", "xml", "yaml", "yml", "toml", "ini", "conf", "log", "c", "h", "cpp", "py", "pl", "rb", "js", "mjs", "cjs", "ts", "css", "sh", "tex"]],
+  ["image", ["png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "ico", "tif", "tiff", "avif"]],
+  ["audio", ["mp3", "wav", "ogg", "oga", "flac", "aac", "m4a", "opus", "mid", "midi"]],
+  ["video", ["mp4", "m4v", "mkv", "webm", "avi", "mov", "mpg", "mpeg", "ogv", "wmv"]],
+  ["archive", ["zip", "tar", "gz", "tgz", "bz2", "tbz2", "xz", "txz", "zst", "7z", "rar", "z", "lz", "lzma", "hqx", "uu"]],
+  ["document", ["html", "htm", "shtml", "pdf", "ps", "eps", "ai", "dvi", "doc", "docx", "odt", "rtf", "epub"]],
+  ["binary", ["bin", "exe", "dll", "so", "dylib", "o", "a", "iso", "img", "dmg", "deb", "rpm", "msi", "jar", "wasm"]],
+] as const) {
+  for (const extension of extensions) {
+    EXTENSION_KINDS[extension] = kind;
+  }
+}
+
+/**
+ * Infers the normalized kind of an entry.
+ *
+ * The icon alt text is checked first, then the icon file name, and finally the
+ * extension of the entry name, mirroring apache's default `AddIcon` configuration.
+ *
+ * @param {string} name - The name of the entry
+ * @param {boolean} isDirectory - Whether the entry is a directory
+ * @param {EntryIcon | undefined} icon - The icon rendered next to the entry, if any
+ * @returns {EntryKind} The inferred kind of the entry
+ */
+export function inferEntryKind(name: string, isDirectory: boolean, icon?: EntryIcon): EntryKind {
+  if (isDirectory) {
+    return "directory";
+  }
+
+  const altKind = icon?.alt ? ALT_KINDS[icon.alt.trim().toUpperCase()] : undefined;
+  if (altKind && altKind !== "directory") {
+    return altKind;
+  }
+
+  if (icon?.src) {
+    const iconName = icon.src.split(/[?#]/)[0]!.split("/").pop()!.replace(/\.(?:gif|png|svg)$/i, "");
+    const iconKind = ICON_KINDS[iconName.toLowerCase()];
+    if (iconKind && iconKind !== "directory") {
+      return iconKind;
+    }
+  }
+
+  const extension = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+  return EXTENSION_KINDS[extension] ?? "unknown";
+}
+
+/**
+ * The icon of a row is the last image before its link, which may be wrapped in a link itself (`IconsAreLinks`).
+ */
+export function parseIcon(nodes: HtmlNode[]): EntryIcon | undefined {
+  let img: HtmlElement | undefined;
+
+  for (const node of nodes) {
+    if (node.type === "element") {
+      img = node.name === "img" ? node : findAll(node, "img").at(-1) ?? img;
+    }
+  }
+
+  if (!img) {
+    return undefined;
+  }
+
+  return {
+    src: img.attributes.src,
+    alt: img.attributes.alt,
+  };
+}
@@ -0,0 +1,253 @@
+import type { ParsedDate } from "./date";
+import type { ParseContext } from "./diagnostics";
+import type { HtmlElement } from "./html";
+import type { Entry } from "./index";
+import type { FormatDefinition } from "./registry";
+import type { Selector } from "./selector";
+import type { FileSize } from "./size";
+import { compileDatePattern } from "./date";
+import { findDateField, parseDateField, warnSkippedRow } from "./diagnostics";
+import { findFirst, parseHtml, sourceOf, textContent } from "./html";
+import { createEntry, recoverTruncatedName, trimTrailingSlash } from "./lib";
+import { compileSelector, selectAll, selectFirst } from "./selector";
+import { parseSize, parseUnitSize } from "./size";
+
+/**
+ * Where a value is read from: the text of the first element matching a selector, or one of its attributes.
+ * Without a selector, the value is read from the row itself.
+ */
+export type LayoutField = string | { selector?: string; attribute: string };
+
+export interface LayoutSpec {
+  /**
+   * Selects the rows of the listing in the whole page, e.g. `table#list > tbody > tr`
+   */
+  row: string;
+
+  /**
+   * Selects the link of the entry within a row, its href is the href of the entry
+   */
+  link: string;
+
+  /**
+   * Where the name of the entry is read from
+   * @default the text of the link
+   */
+  name?: LayoutField;
+
+  /**
+   * Where the last modified date of the entry is read from
+   * @default undefined
+   */
+  date?: LayoutField;
+
+  /**
+   * The pattern the dates are printed with (e.g. `YYYY-MMM-DD HH:mm`), see `compileDatePattern` for the tokens
+   * @default undefined (any date format recognized by `parseDate`)
+   */
+  datePattern?: string;
+
+  /**
+   * Where the size of the entry is read from
+   * @default undefined
+   */
+  size?: LayoutField;
+
+  /**
+   * Selects the rows of directories, either the row itself or an element within it (e.g. `img[alt="[DIR]"]`).
+   * Entries whose href ends with a slash are always directories.
+   * @default undefined
+   */
+  directory?: string;
+
+  /**
+   * Selects rows that aren't entries, either the row itself or an element within it (e.g. `th`).
+   * Links to the parent directory are always skipped.
+   * @default undefined
+   */
+  skip?: string;
+}
+
+export interface LayoutDefinition extends Pick<FormatDefinition, "name" | "family" | "detect"> {
+  /**
+   * The selectors and date pattern the listing is parsed with
+   */
+  layout: LayoutSpec;
+}
+
+interface CompiledField {
+  selector: Selector | undefined;
+  attribute: string | undefined;
+}
+
+/**
+ * Compiles a declarative layout into a format parser, for listings that are themed so heavily
+ * that none of the built-in formats can parse them.
+ *
+ * The selectors are compiled right away, so mistakes in the layout throw here instead of while parsing.
+ *
+ * @param {LayoutSpec} spec - The selectors and date pattern of the layout
+ * @returns {FormatDefinition["parse"]} The parser, to register with `registerFormat`
+ * @throws {Error} If a selector or the date pattern is invalid
+ *
+ * @example
+ * ```ts
+ * import { compileLayout, parse, registerFormat } from 'apache-autoindex-parse';
+ *
+ * registerFormat({
+ *   name: 'intranet',
+ *   detect: (html) => html.includes('class="intranet-listing"'),
+ *   parse: compileLayout({
+ *     row: '.intranet-listing .entry',
+ *     link: 'a',
+ *     date: '.date',
+ *     datePattern: 'DD.MM.YYYY HH:mm',
+ *     size: '.size',
+ *     directory: '.entry.dir',
+ *   }),
+ * });
+ * ```
+ */
+export function compileLayout(spec: LayoutSpec): FormatDefinition["parse"] {
+  const row = compileSelector(spec.row);
+  const link = compileSelector(spec.link);
+  const name = spec.name !== undefined ? compileField(spec.name) : undefined;
+  const date = spec.date !== undefined ? compileField(spec.date) : undefined;
+  const size = spec.size !== undefined ? compileField(spec.size) : undefined;
+  const directory = spec.directory !== undefined ? compileSelector(spec.directory) : undefined;
+  const skip = spec.skip !== undefined ? compileSelector(spec.skip) : undefined;
+  const parsePatternDate = spec.datePattern !== undefined ? compileDatePattern(spec.datePattern) : undefined;
+
+  return (content: string, context: ParseContext): Entry[] => {
+    const document = parseHtml(content);
+    const entries: Entry[] = [];
+
+    // selectors for the rows themselves can depend on their ancestors, so they're matched against the whole page
+    const directories = directory ? new Set(selectAll(document, directory)) : undefined;
+    const skipped = skip ? new Set(selectAll(document, skip)) : undefined;
+    const within = (element: HtmlElement, elements: Set<HtmlElement>): boolean =>
+      elements.has(element) || findFirst(element, (descendant) => elements.has(descendant)) !== undefined;
+
+    for (const element of selectAll(document, row)) {
+      if (skipped && within(element, skipped)) {
+        continue;
+      }
+
+      const anchor = selectFirst(element, link);
+      const href = anchor?.attributes.href;
+      const text = name ? readField(element, name) : anchor ? textContent(anchor).trim() : undefined;
+
+      if (href !== undefined && isParentLink(href, text ?? "")) {
+        continue;
+      }
+
+      if (!href || !text) {
+        warnSkippedRow(context, anchor ? "link has no href or text" : "row has no link", sourceOf(content, element));
+        continue;
+      }
+
+      const isDirectory = href.endsWith("/") || (directories !== undefined && within(element, directories));
+
+      const dateText = date ? readField(element, date) : undefined;
+      const sizeText = size && !isDirectory ? readField(element, size) : undefined;
+
+      // names longer than the column are often shortened to end with "..>", like nginx does
+      const recoveredName = recoverTruncatedName(text, href);
+
+      entries.push(createEntry({
+        name: recoveredName ?? text,
+        href,
+        path: relativeHref(href),
+        truncated: recoveredName !== undefined,
+        isDirectory,
+        date: dateText ? readDate(dateText, parsePatternDate, date?.attribute !== undefined, context) : undefined,
+        size: sizeText ? readSize(sizeText, context) : undefined,
+      }));
+    }
+
+    return entries;
+  };
+}
+
+/**
+ * Turns a declarative layout into a format, to pass to `registerFormat`.
+ *
+ * @param {LayoutDefinition} definition - The name and detector of the format, together with its layout
+ * @returns {FormatDefinition} The format
+ */
+export function defineLayout({ name, family, detect, layout }: LayoutDefinition): FormatDefinition {
+  return {
+    name,
+    family,
+    detect,
+    parse: compileLayout(layout),
+  };
+}
+
+function compileField(field: LayoutField): CompiledField {
+  if (typeof field === "string") {
+    return { selector: compileSelector(field), attribute: undefined };
+  }
+
+  return {
+    selector: field.selector !== undefined ? compileSelector(field.selector) : undefined,
+    attribute: field.attribute.toLowerCase(),
+  };
+}
+
+function readField(row: HtmlElement, field: CompiledField): string | undefined {
+  const element = field.selector ? selectFirst(row, field.selector) : row;
+  if (!element) {
+    return undefined;
+  }
+
+  const value = field.attribute !== undefined ? element.attributes[field.attribute] : textContent(element);
+  return value?.replace(/\xA0/g, " ").trim();
+}
+
+function readDate(
+  text: string,
+  parsePatternDate: ((text: string, timezone?: string) => ParsedDate | undefined) | undefined,
+  isAttribute: boolean,
+  context: ParseContext,
+): ParsedDate | undefined {
+  if (text === "-") {
+    return undefined;
+  }
+
+  if (parsePatternDate) {
+    const date = parsePatternDate(text, context.timezone);
+    if (!date) {
+      context.warn({ code: "invalid-date", message: `invalid last modified date "${text}"`, raw: text });
+    }
+
+    return date;
+  }
+
+  // attributes hold machine readable dates (e.g. the datetime of a <time>), text holds them as printed
+  return isAttribute ? parseDateField(text, context) : findDateField(text, context);
+}
+
+function readSize(text: string, context: ParseContext): FileSize | undefined {
+  const size = parseSize(text) ?? parseUnitSize(text);
+  if (!size && /^\d/.test(text)) {
+    context.warn({ code: "invalid-size", message: `invalid size "${text}"`, raw: text });
+  }
+
+  return size;
+}
+
+function isParentLink(href: string, text: string): boolean {
+  return href === "/" || href === ".." || href === "../" || /^parent directory\/?$/i.test(text);
+}
+
+/**
+ * Themes often link to entries with absolute paths, but paths are relative to the listed directory.
+ */
+function relativeHref(href: string): string {
+  if (!href.startsWith("/") && !/^[a-z][a-z\d+.-]*:/i.test(href)) {
+    return href;
+  }
+
+  return trimTrailingSlash(href.split(/[?#]/)[0]!).split("/").pop() ?? href;
+}
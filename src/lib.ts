@@ -1,3 +1,8 @@
+import type { ParsedDate } from "./date";
+import type { Entry, EntryIcon } from "./index";
+import type { FileSize } from "./size";
+import { inferEntryKind } from "./kind";
+
 export function trimTrailingSlash(path: string): string {
   if (path === "/") {
     return path;
@@ -14,3 +19,196 @@ export function trimLeadingSlash(path: string): string {
 
   return path;
 }
+
+export function normalizePath(rawPath: string, isDirectory: boolean): string {
+  const trimmed = trimTrailingSlash(rawPath);
+
+  if (!isDirectory) {
+    return trimmed;
+  }
+
+  if (trimmed === "/") {
+    return trimmed;
+  }
+
+  return `${trimmed}/`;
+}
+
+/**
+ * The URL of the listed directory, which the links of its listing are resolved against.
+ * Servers redirect directories to their URL with a trailing slash before listing them, so a missing one is added.
+ *
+ * @param {string | URL} pageUrl - The URL the listing was fetched from
+ * @returns {URL} The URL of the directory, without query or fragment
+ */
+export function toDirectoryUrl(pageUrl: string | URL): URL {
+  const url = new URL(pageUrl);
+  url.search = "";
+  url.hash = "";
+
+  if (!url.pathname.endsWith("/")) {
+    url.pathname = `${url.pathname}/`;
+  }
+
+  return url;
+}
+
+/**
+ * Whether a resolved link points into a directory, instead of at the directory itself (e.g. a sort link),
+ * its parents or another host.
+ */
+export function isWithinDirectory(url: URL, directory: URL): boolean {
+  return url.origin === directory.origin
+    && url.pathname.startsWith(directory.pathname)
+    && url.pathname !== directory.pathname;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: "\xA0",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint = code[1] === "x" || code[1] === "X"
+        ? Number.parseInt(code.slice(2), 16)
+        : Number.parseInt(code.slice(1), 10);
+
+      return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+    }
+
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Decodes percent-encoding, keeping the value as is when it isn't valid UTF-8 (e.g. latin-1 encoded names).
+ */
+export function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Apache (with its default `NameWidth`) and nginx shorten long names in the link text to end with "..>",
+ * but always link to the full name, so it can be recovered from the href.
+ *
+ * @param {string} text - The decoded link text
+ * @param {string} href - The link target
+ * @returns {string | undefined} The full name, or undefined if the link text wasn't shortened
+ */
+export function recoverTruncatedName(text: string, href: string): string | undefined {
+  if (!text.endsWith("..>")) {
+    return undefined;
+  }
+
+  const hrefName = safeDecodeURIComponent(trimTrailingSlash(href).split(/[?#]/)[0]!.split("/").pop() ?? "");
+  return hrefName && hrefName !== text ? hrefName : undefined;
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Waits for the given number of milliseconds, rejecting with the signal's reason once it is aborted.
+ */
+export function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+
+    timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface EntryFields {
+  /**
+   * The name of the entry, with HTML entities already decoded
+   */
+  name: string;
+
+  /**
+   * The link target exactly as the server sent it
+   */
+  href: string;
+
+  /**
+   * The percent-encoded path of the entry relative to the listing, when it differs from the href
+   */
+  path?: string;
+
+  /**
+   * Whether the name was recovered from the href because the listing shortened it
+   */
+  truncated?: boolean;
+
+  isDirectory: boolean;
+  date?: ParsedDate;
+  size?: FileSize;
+  etag?: string;
+  description?: string;
+  icon?: EntryIcon;
+}
+
+export function createEntry({ name, href, path, truncated, isDirectory, date, size, etag, description, icon }: EntryFields): Entry {
+  const normalizedName = trimTrailingSlash(name.trim());
+  const normalizedPath = normalizePath(safeDecodeURIComponent(path ?? href), isDirectory);
+
+  const dateFields = date ? { lastModifiedRaw: date.raw, lastModifiedPrecision: date.precision } : {};
+  const descriptionFields = description ? { description } : {};
+  const iconFields = icon ? { icon } : {};
+  const truncatedFields = truncated ? { truncated } : {};
+
+  if (isDirectory) {
+    return {
+      type: "directory",
+      name: normalizedName,
+      path: normalizedPath,
+      href,
+      ...truncatedFields,
+      lastModified: date?.timestamp,
+      ...dateFields,
+      ...descriptionFields,
+      kind: "directory",
+      ...iconFields,
+    };
+  }
+
+  return {
+    type: "file",
+    name: normalizedName,
+    path: normalizedPath,
+    href,
+    ...truncatedFields,
+    lastModified: date?.timestamp,
+    ...dateFields,
+    size,
+    ...(etag ? { etag } : {}),
+    ...descriptionFields,
+    kind: inferEntryKind(normalizedName, false, icon),
+    ...iconFields,
+  };
+}
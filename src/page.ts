@@ -0,0 +1,284 @@
+import type { HtmlElement } from "./html";
+import type { AutoIndexFormat, Entry, RegisteredFormat } from "./index";
+import { findAll, findFirst, hasClass, parseHtml, textContent } from "./html";
+
+export interface PageSection {
+  /**
+   * The section exactly as it was inserted into the page
+   */
+  html: string;
+
+  /**
+   * The section with inline HTML stripped and entities decoded
+   */
+  text: string;
+}
+
+export interface ServerSignature {
+  /**
+   * The signature exactly as it was printed (e.g. "Apache/2.4.62 (Unix) Server at example.com Port 80")
+   */
+  raw: string;
+
+  /**
+   * The server software (e.g. "Apache")
+   */
+  software: string;
+
+  /**
+   * The version of the server software, hidden by e.g. `ServerTokens Prod`
+   */
+  version: string | undefined;
+
+  /**
+   * The operating system the server was built for (e.g. "Unix")
+   */
+  os: string | undefined;
+
+  /**
+   * The host name the server answered for
+   */
+  host: string | undefined;
+
+  /**
+   * The port the server answered on
+   */
+  port: number | undefined;
+}
+
+export type SortColumn = "name" | "lastModified" | "size" | "description";
+
+export type SortDirection = "ascending" | "descending";
+
+export interface PageSort {
+  /**
+   * The column the listing was sorted by, or undefined if it can't be determined
+   */
+  column: SortColumn | undefined;
+
+  /**
+   * The direction the listing was sorted in
+   */
+  direction: SortDirection;
+}
+
+export interface PageMetadata {
+  /**
+   * The text of the page's `<title>`
+   */
+  title: string | undefined;
+
+  /**
+   * The path of the listed directory as printed by the server (e.g. "/pub/releases")
+   */
+  path: string | undefined;
+
+  /**
+   * The content Apache inserted before the listing (`HeaderName`), always undefined for formats other than F0, F1 and F2
+   */
+  header: PageSection | undefined;
+
+  /**
+   * The content Apache inserted after the listing (`ReadmeName`), always undefined for formats other than F0, F1 and F2
+   */
+  readme: PageSection | undefined;
+
+  /**
+   * The server signature printed below the listing (`ServerSignature`)
+   */
+  server: ServerSignature | undefined;
+
+  /**
+   * The column and direction the listing was sorted by, for listings with sort links
+   */
+  sort: PageSort | undefined;
+}
+
+const PATH_TITLES = [
+  /^Index of\s(.+)$/i,
+  /^Directory listing for\s(.+)$/i,
+  // iis prints "<host> - <path>", while caddy only prints the path
+  /^\S+\s+-\s+(\/.*)$/,
+  /^(\/.*)$/,
+];
+
+const SORT_COLUMNS: Record<string, SortColumn> = {
+  N: "name",
+  M: "lastModified",
+  S: "size",
+  D: "description",
+};
+
+// the elements apache puts its listing in, other servers have no `HeaderName` or `ReadmeName` to split off
+const LISTING_ELEMENTS: Partial<Record<AutoIndexFormat | RegisteredFormat, string>> = {
+  F0: "ul",
+  F1: "pre",
+  F2: "table",
+};
+
+export function parsePageMetadata(html: string, format: AutoIndexFormat | RegisteredFormat, entries: Entry[]): PageMetadata {
+  const document = parseHtml(html);
+
+  const titleElement = findFirst(document, "title");
+  const title = titleElement ? textContent(titleElement).trim() || undefined : undefined;
+
+  // without a title, the heading usually carries the same text
+  const headingElement = findFirst(document, "h1");
+  const heading = title ?? (headingElement ? textContent(headingElement).trim() : undefined);
+
+  let path: string | undefined;
+  for (const pattern of PATH_TITLES) {
+    const match = heading?.match(pattern);
+    if (match?.[1]) {
+      path = match[1].trim();
+      break;
+    }
+  }
+
+  const signature = findFirst(document, "address") ?? findFirst(document, (element) => element.name === "div" && hasClass(element, "foot"));
+  const { header, readme } = parseSections(html, document, format, signature);
+
+  return {
+    title,
+    path,
+    header,
+    readme,
+    server: parseServerSignature(signature),
+    sort: parseSort(document, entries),
+  };
+}
+
+/**
+ * Splits off the content apache inserted before and after the listing, which only exists for its own formats.
+ */
+function parseSections(
+  html: string,
+  document: HtmlElement,
+  format: AutoIndexFormat | RegisteredFormat,
+  signature: HtmlElement | undefined,
+): Pick<PageMetadata, "header" | "readme"> {
+  const listingElement = LISTING_ELEMENTS[format];
+
+  // plain text headers are wrapped in a <pre> as well, but never contain links
+  const listing = listingElement
+    ? findFirst(document, (element) => element.name === listingElement && findFirst(element, "a") !== undefined)
+    : undefined;
+
+  if (!listing) {
+    return { header: undefined, readme: undefined };
+  }
+
+  const body = findFirst(document, "body");
+  const headerStart = contentStart(html, body);
+
+  // apache only prints its own heading when there is no header file
+  const heading = findFirst(document, (element) => element.name === "h1" && element.start >= headerStart && element.end <= listing.start);
+  const header = heading && /^\s*Index of\b/i.test(textContent(heading))
+    ? html.slice(headerStart, heading.start) + html.slice(heading.end, listing.start)
+    : html.slice(headerStart, listing.start);
+
+  const readmeEnd = signature && signature.start >= listing.end ? signature.start : contentEnd(html, body);
+
+  return {
+    header: createSection(header),
+    readme: createSection(html.slice(listing.end, readmeEnd)),
+  };
+}
+
+/**
+ * The offset after the start tag of an element, or the start of the source without one.
+ */
+function contentStart(html: string, element: HtmlElement | undefined): number {
+  return element ? html.indexOf(">", element.start) + 1 : 0;
+}
+
+/**
+ * The offset of the end tag of an element, or the end of the source without one.
+ */
+function contentEnd(html: string, element: HtmlElement | undefined): number {
+  if (!element) {
+    return html.length;
+  }
+
+  // elements that were closed implicitly end without their own end tag
+  const endTag = html.slice(element.start, element.end).match(new RegExp(`</${element.name}\\s*>$`, "i"));
+  return element.end - (endTag?.[0].length ?? 0);
+}
+
+function createSection(html: string): PageSection | undefined {
+  const trimmed = html.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  return { html: trimmed, text: textContent(parseHtml(trimmed)).trim() };
+}
+
+function parseServerSignature(signature: HtmlElement | undefined): ServerSignature | undefined {
+  const raw = signature ? textContent(signature).replace(/\s+/g, " ").trim() : "";
+  const productMatch = raw.match(/^([^\s/]+)(?:\/(\S+))?(?:\s+\(([^)]*)\))?/);
+  if (!productMatch || !productMatch[1]) {
+    return undefined;
+  }
+
+  const hostMatch = raw.match(/\bServer at\s+(\S+)\s+Port\s+(\d+)/i);
+
+  return {
+    raw,
+    software: productMatch[1],
+    version: productMatch[2],
+    os: productMatch[3],
+    host: hostMatch?.[1],
+    port: hostMatch?.[2] ? Number(hostMatch[2]) : undefined,
+  };
+}
+
+function parseSort(document: HtmlElement, entries: Entry[]): PageSort | undefined {
+  const links = findAll(document, "a")
+    .map((link) => link.attributes.href?.match(/^\?C=([NMSD])[;&]O=([AD])/i))
+    .filter((match) => match != null);
+  if (links.length === 0) {
+    return undefined;
+  }
+
+  // apache links the current column to the reverse order and every other column to ascending order
+  const reversed = links.find((link) => link[2]!.toUpperCase() === "D");
+  if (reversed) {
+    return { column: SORT_COLUMNS[reversed[1]!.toUpperCase()], direction: "ascending" };
+  }
+
+  // in descending order every link is ascending, so the column has to be recovered from the entries
+  return { column: inferDescendingColumn(entries), direction: "descending" };
+}
+
+function inferDescendingColumn(entries: Entry[]): SortColumn | undefined {
+  const columns: [SortColumn, (entry: Entry) => string | number | undefined][] = [
+    ["name", (entry) => entry.name],
+    ["lastModified", (entry) => entry.lastModified],
+    ["size", (entry) => entry.type === "file" ? entry.size?.bytes : undefined],
+  ];
+
+  for (const [column, getValue] of columns) {
+    let decreased = false;
+    let ordered = true;
+
+    // directories may be listed first (`FoldersFirst`), so each type is checked on its own
+    for (const type of ["directory", "file"] as const) {
+      const values = entries.filter((entry) => entry.type === type).map(getValue).filter((value) => value !== undefined);
+
+      for (let i = 1; i < values.length; i++) {
+        if (values[i]! > values[i - 1]!) {
+          ordered = false;
+        } else if (values[i]! < values[i - 1]!) {
+          decreased = true;
+        }
+      }
+    }
+
+    if (ordered && decreased) {
+      return column;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,240 @@
+export interface RateLimit {
+  /**
+   * The number of requests per second that are sent to a host on average, requests are only spaced by `minDelay` without it
+   * @default undefined
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * The number of requests that can be sent to a host at once before `requestsPerSecond` applies,
+   * which is the size of the token bucket
+   * @default 1
+   */
+  burst?: number;
+
+  /**
+   * The minimum delay in milliseconds between the start of two requests to a host, applied on top of `requestsPerSecond`
+   * @default 0
+   */
+  minDelay?: number;
+}
+
+export interface RateLimiterOptions extends RateLimit {
+  /**
+   * Limits for specific origins (e.g. `https://mirrors.example.com`), which replace the default limits for them
+   */
+  origins?: Record<string, RateLimit>;
+}
+
+export interface RateLimiter {
+  /**
+   * Waits until a request to the URL is within the budget of its origin, requests to an origin are let through
+   * in the order they were made in. Requests whose signal is aborted while they wait reject with its reason,
+   * without using up any of the budget
+   */
+  acquire: (url: string, signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Counts a request that was sent without `acquire` against the budget of the URL's origin, without waiting
+   * (e.g. the request a redirect led to). The requests to the origin that follow wait for the budget it took
+   */
+  charge: (url: string) => void;
+}
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  updatedAt: number;
+
+  /**
+   * The time the next request may be sent at according to `minDelay`
+   */
+  nextAt: number;
+
+  /**
+   * The requests that wait for their turn, first in, first out
+   */
+  waiting: (() => void)[];
+
+  /**
+   * The timer that lets the first waiting request through once it's within the budget
+   */
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Creates a rate limiter that gives every origin its own token bucket.
+ *
+ * Every request takes a token from the bucket of its origin, which holds up to `burst` tokens and is refilled
+ * with `requestsPerSecond` tokens per second. Requests are delayed until their token was refilled,
+ * so passing the same limiter to several traversals makes them share one budget per host.
+ *
+ * @param {RateLimiterOptions} options - The default limits and the limits for specific origins
+ * @returns {RateLimiter} The rate limiter
+ * @throws {RangeError} If `requestsPerSecond` isn't a positive number, `burst` isn't a positive integer or `minDelay` is negative
+ *
+ * @example
+ * ```ts
+ * import { createRateLimiter, traverse } from 'apache-autoindex-parse/traverse';
+ *
+ * const rateLimit = createRateLimiter({
+ *   requestsPerSecond: 5,
+ *   origins: { 'https://mirrors.example.com': { requestsPerSecond: 1, minDelay: 2000 } },
+ * });
+ *
+ * await Promise.all([
+ *   traverse('https://mirrors.example.com/debian/', { rateLimit }),
+ *   traverse('https://mirrors.example.com/ubuntu/', { rateLimit }),
+ * ]);
+ * ```
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const { origins = {}, ...defaults } = options;
+  assertRateLimit(defaults);
+
+  const limits = new Map<string, RateLimit>();
+  for (const [origin, limit] of Object.entries(origins)) {
+    assertRateLimit(limit, origin);
+    limits.set(new URL(origin).origin, limit);
+  }
+
+  const buckets = new Map<string, Bucket>();
+
+  const getBucket = (origin: string): Bucket => {
+    let bucket = buckets.get(origin);
+    if (!bucket) {
+      // a bucket that was refilled completely and has no waiting requests is in the same state as a new one,
+      // so those are dropped instead of keeping a bucket for every origin that was ever requested
+      const now = Date.now();
+      for (const [key, other] of buckets) {
+        if (other.waiting.length === 0 && isFull(other, now)) {
+          buckets.delete(key);
+        }
+      }
+
+      const limit = limits.get(origin) ?? defaults;
+      bucket = { limit, tokens: limit.burst ?? 1, updatedAt: now, nextAt: 0, waiting: [], timer: undefined };
+      buckets.set(origin, bucket);
+    }
+
+    return bucket;
+  };
+
+  return {
+    async acquire(url, signal) {
+      signal?.throwIfAborted();
+
+      const bucket = getBucket(new URL(url).origin);
+      return new Promise<void>((resolve, reject) => {
+        let onAbort: (() => void) | undefined;
+
+        const grant = (): void => {
+          signal?.removeEventListener("abort", onAbort!);
+          resolve();
+        };
+
+        onAbort = () => {
+          // an aborted request leaves the queue without taking a token, so the requests behind it move up
+          bucket.waiting.splice(bucket.waiting.indexOf(grant), 1);
+          reject(signal!.reason);
+          release(bucket);
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        bucket.waiting.push(grant);
+        release(bucket);
+      });
+    },
+
+    charge(url) {
+      const bucket = getBucket(new URL(url).origin);
+      const now = Date.now();
+
+      // the bucket can go into debt, which the requests behind it wait for
+      refill(bucket, now);
+      take(bucket, now);
+      release(bucket);
+    },
+  };
+}
+
+/**
+ * Lets the waiting requests through as long as they're within the budget, and sets a timer for the first one that isn't.
+ */
+function release(bucket: Bucket): void {
+  const { requestsPerSecond } = bucket.limit;
+
+  clearTimeout(bucket.timer);
+  bucket.timer = undefined;
+
+  while (bucket.waiting.length > 0) {
+    const now = Date.now();
+    let at = Math.max(now, bucket.nextAt);
+
+    refill(bucket, now);
+    if (requestsPerSecond !== undefined && bucket.tokens < 1) {
+      at = Math.max(at, now + (1 - bucket.tokens) * 1000 / requestsPerSecond);
+    }
+
+    if (at > now) {
+      // rounded up, so the token has been refilled completely once the timer fires
+      bucket.timer = setTimeout(() => release(bucket), Math.ceil(at - now));
+      return;
+    }
+
+    take(bucket, now);
+    bucket.waiting.shift()!();
+  }
+}
+
+function refill(bucket: Bucket, now: number): void {
+  const { requestsPerSecond, burst = 1 } = bucket.limit;
+  if (requestsPerSecond !== undefined) {
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * requestsPerSecond / 1000);
+    bucket.updatedAt = now;
+  }
+}
+
+function take(bucket: Bucket, now: number): void {
+  if (bucket.limit.requestsPerSecond !== undefined) {
+    bucket.tokens--;
+  }
+
+  bucket.nextAt = now + (bucket.limit.minDelay ?? 0);
+}
+
+/**
+ * Whether the bucket was refilled completely and its `minDelay` has passed, so it's in the state of a new bucket.
+ */
+function isFull(bucket: Bucket, now: number): boolean {
+  const { requestsPerSecond, burst = 1 } = bucket.limit;
+  if (bucket.nextAt > now) {
+    return false;
+  }
+
+  return requestsPerSecond === undefined || bucket.tokens + (now - bucket.updatedAt) * requestsPerSecond / 1000 >= burst;
+}
+
+/**
+ * Whether the value is a rate limiter, as opposed to the options to create one.
+ */
+export function isRateLimiter(value: RateLimiter | RateLimiterOptions): value is RateLimiter {
+  return typeof (value as RateLimiter).acquire === "function";
+}
+
+function assertRateLimit(limit: RateLimit, origin?: string): void {
+  const { requestsPerSecond, burst, minDelay } = limit;
+  const suffix = origin ? ` for ${origin}` : "";
+
+  if (requestsPerSecond !== undefined && !(requestsPerSecond > 0 && Number.isFinite(requestsPerSecond))) {
+    throw new RangeError(`requestsPerSecond must be a positive number${suffix}, got ${requestsPerSecond}`);
+  }
+
+  if (burst !== undefined && (!Number.isInteger(burst) || burst < 1)) {
+    throw new RangeError(`burst must be a positive integer${suffix}, got ${burst}`);
+  }
+
+  if (minDelay !== undefined && !(minDelay >= 0 && Number.isFinite(minDelay))) {
+    throw new RangeError(`minDelay must be a non-negative number${suffix}, got ${minDelay}`);
+  }
+}
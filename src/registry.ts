@@ -0,0 +1,126 @@
+import type { FormatDetection, ServerFamily } from "./detect";
+import type { ParseContext } from "./diagnostics";
+import type { AutoIndexFormat, Entry, RegisteredFormat } from "./index";
+
+export interface FormatDefinition {
+  /**
+   * The name of the format, which is passed as `format` to `parse` and `traverse`
+   */
+  name: string;
+
+  /**
+   * The server family reported by `detectFormat` for content in this format
+   * @default "custom"
+   */
+  family?: ServerFamily;
+
+  /**
+   * Decides whether content is in this format.
+   *
+   * Return a confidence from 0 to 1 (or a boolean, where `true` is 1). The format is inferred when its confidence
+   * is at least as high as the confidence of the built-in detection, e.g. 0.95 for Apache listings with sort links.
+   */
+  detect: (content: string) => number | boolean;
+
+  /**
+   * Parses content in this format into entries, `basePath` is applied to them afterwards
+   */
+  parse: (content: string, context: ParseContext) => Entry[];
+}
+
+// a record instead of a set, so a format added to the union can't be forgotten here
+const BUILTIN_FORMATS: Record<AutoIndexFormat, true> = {
+  "F0": true,
+  "F1": true,
+  "F2": true,
+  "nginx": true,
+  "nginx-json": true,
+  "nginx-xml": true,
+  "lighttpd": true,
+  "caddy": true,
+  "caddy-json": true,
+  "python": true,
+  "iis": true,
+  "s3": true,
+};
+
+const registry = new Map<string, FormatDefinition>();
+
+/**
+ * Registers a custom format, e.g. for themed listings (`IndexStyleSheet`, `HeaderName` wrappers or custom table markup)
+ * that none of the built-in formats can parse.
+ *
+ * Registered formats are accepted everywhere a `format` is, and take part in `detectFormat` and `inferFormat`.
+ *
+ * @param {FormatDefinition} definition - The name, detector and parser of the format
+ * @throws {Error} If a format with the same name is already registered, or it's the name of a built-in format
+ *
+ * @example
+ * ```ts
+ * import { parse, registerFormat } from 'apache-autoindex-parse';
+ *
+ * registerFormat({
+ *   name: 'intranet',
+ *   family: 'apache',
+ *   detect: (html) => html.includes('<table class="intranet-listing">'),
+ *   parse: (html, context) => parseIntranetListing(html, context.timezone),
+ * });
+ *
+ * const entries = parse(html); // or parse(html, 'intranet')
+ * ```
+ */
+export function registerFormat(definition: FormatDefinition): void {
+  if (isAutoIndexFormat(definition.name) || registry.has(definition.name)) {
+    throw new Error(`format "${definition.name}" is already registered`);
+  }
+
+  registry.set(definition.name, definition);
+}
+
+/**
+ * Removes a format added with `registerFormat`.
+ *
+ * @param {string} name - The name of the format
+ * @returns {boolean} Whether the format was registered
+ */
+export function unregisterFormat(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function isAutoIndexFormat(name: string): name is AutoIndexFormat {
+  return Object.hasOwn(BUILTIN_FORMATS, name);
+}
+
+export function getRegisteredFormat(name: string): FormatDefinition | undefined {
+  return registry.get(name);
+}
+
+export function assertKnownFormat(name: string): void {
+  if (!isAutoIndexFormat(name) && !registry.has(name)) {
+    throw new Error(`unknown format "${name}"`);
+  }
+}
+
+/**
+ * Runs the detectors of the registered formats, the first of the most confident ones wins.
+ */
+export function detectRegisteredFormat(content: string): FormatDetection | undefined {
+  let best: FormatDetection | undefined;
+
+  for (const definition of registry.values()) {
+    const result = definition.detect(content);
+    const confidence = Math.min(Math.max(typeof result === "boolean" ? Number(result) : result, 0), 1);
+
+    if (confidence > 0 && (!best || confidence > best.confidence)) {
+      best = {
+        family: definition.family ?? "custom",
+        // the name is only part of the type once it was declared in `RegisteredFormats`
+        format: definition.name as RegisteredFormat,
+        confidence,
+        evidence: [`registered format "${definition.name}"`],
+      };
+    }
+  }
+
+  return best;
+}
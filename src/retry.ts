@@ -0,0 +1,161 @@
+import { parseHttpDate } from "./date";
+import { FetchError, HttpError } from "./errors";
+import { sleep } from "./lib";
+
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts, including the first one
+   * @default 3
+   */
+  attempts?: number;
+
+  /**
+   * The delay before the first retry in milliseconds, which is multiplied by `factor` for every following retry
+   * @default 500
+   */
+  minDelay?: number;
+
+  /**
+   * The maximum delay between attempts in milliseconds. Requests are given up when the server asks to wait longer
+   * in its `Retry-After` header
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * The factor the delay grows by with every retry
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Whether to randomize the delays between half and all of their length, so clients that failed
+   * at the same time don't retry at the same time
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * The status codes of responses that are retried
+   * @default [408, 425, 429, 500, 502, 503, 504]
+   */
+  statusCodes?: number[];
+
+  /**
+   * Whether to retry requests that failed without a response (e.g. a reset connection or a DNS failure),
+   * or a function that decides it for each `FetchError`, whose `cause` is the original error
+   * @default true
+   */
+  networkErrors?: boolean | ((error: FetchError) => boolean);
+
+  /**
+   * Callback function invoked after each attempt that failed.
+   * @param {RetryAttempt} attempt The failed attempt, including when the next one is made.
+   */
+  onAttempt?: (attempt: RetryAttempt) => void;
+}
+
+export interface RetryAttempt {
+  /**
+   * The URL of the listing
+   */
+  url: string;
+
+  /**
+   * The number of the attempt, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * The error the attempt failed with
+   */
+  error: FetchError;
+
+  /**
+   * The delay in milliseconds before the next attempt, or undefined if the request is given up
+   */
+  delay: number | undefined;
+}
+
+// the statuses that servers respond with while they are overloaded or restarting, and that say when to retry
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * Runs a request until it succeeds, it fails with an error that isn't retried or it runs out of attempts.
+ *
+ * @param {string} url - The URL of the request, reported to `onAttempt`
+ * @param {() => Promise<T>} request - Makes an attempt, throwing a `FetchError` when it fails
+ * @param {RetryOptions | undefined} options - The retry policy, requests aren't retried without one
+ * @param {AbortSignal | undefined} signal - Stops waiting for the next attempt, rejecting with the signal's reason
+ * @returns {Promise<T>} The result of the first attempt that succeeded
+ */
+export async function withRetry<T>(
+  url: string,
+  request: () => Promise<T>,
+  options: RetryOptions | undefined,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!options || !(error instanceof FetchError) || signal?.aborted) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt, options);
+      options.onAttempt?.({ url, attempt, error, delay });
+
+      if (delay === undefined) {
+        throw error;
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ *
+ * @param {string | null} value - The value of the header
+ * @param {number} now - The current time in milliseconds since epoch
+ * @returns {number | undefined} The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (value === null || !value.trim()) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = parseHttpDate(value);
+  return date === undefined ? undefined : Math.max(0, date - now);
+}
+
+function getRetryDelay(error: FetchError, attempt: number, options: RetryOptions): number | undefined {
+  const { attempts = 3, minDelay = 500, maxDelay = 30_000, factor = 2, jitter = true } = options;
+
+  if (attempt >= attempts || !isRetryable(error, options)) {
+    return undefined;
+  }
+
+  if (error instanceof HttpError && RETRY_AFTER_STATUSES.has(error.status) && error.retryAfter !== undefined) {
+    // waiting less than the server asked for would only be rejected again
+    return error.retryAfter <= maxDelay ? error.retryAfter : undefined;
+  }
+
+  const delay = Math.min(minDelay * factor ** (attempt - 1), maxDelay);
+  return jitter ? Math.round(delay * (0.5 + Math.random() / 2)) : delay;
+}
+
+function isRetryable(error: FetchError, options: RetryOptions): boolean {
+  if (error instanceof HttpError) {
+    return (options.statusCodes ?? [408, 425, 429, 500, 502, 503, 504]).includes(error.status);
+  }
+
+  const { networkErrors = true } = options;
+  return typeof networkErrors === "function" ? networkErrors(error) : networkErrors;
+}
@@ -0,0 +1,51 @@
+export interface Scheduler {
+  /**
+   * Runs a task as soon as fewer than `concurrency` tasks are running, tasks are started in the order they were scheduled
+   */
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Creates a scheduler that caps how many tasks run at the same time.
+ *
+ * Waiting tasks are started first in, first out, so the order requests are sent in only depends on the order
+ * they were scheduled in, not on the order earlier requests completed in.
+ *
+ * @param {number} concurrency - The maximum number of tasks that run at the same time, `Infinity` for no limit
+ * @returns {Scheduler} The scheduler
+ * @throws {RangeError} If the concurrency isn't a positive integer or `Infinity`
+ */
+export function createScheduler(concurrency: number): Scheduler {
+  if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new RangeError(`concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  const waiting: (() => void)[] = [];
+  let running = 0;
+
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) {
+      // the slot is handed over, so tasks scheduled in the meantime can't take it first
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  return {
+    async run(task) {
+      if (running < concurrency) {
+        running++;
+      } else {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
@@ -0,0 +1,246 @@
+import type { HtmlElement, HtmlNode } from "./html";
+import { hasClass } from "./html";
+
+interface AttributeCondition {
+  name: string;
+  operator: "=" | "~=" | "^=" | "$=" | "*=" | undefined;
+  value: string;
+}
+
+interface CompoundSelector {
+  /**
+   * The lowercased tag name, undefined for `*` or selectors without a tag
+   */
+  tag: string | undefined;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeCondition[];
+}
+
+interface SelectorStep {
+  compound: CompoundSelector;
+
+  /**
+   * How this step relates to the step before it, undefined for the first step
+   */
+  combinator: " " | ">" | undefined;
+}
+
+export type Selector = SelectorStep[][];
+
+const IDENTIFIER = /-?[_a-z][\w-]*/iy;
+const ATTRIBUTE = /\[\s*([^\s~^$*=\]]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*)?\]/y;
+const COMBINATOR = /\s*([>,])\s*|\s+/y;
+
+/**
+ * Compiles a CSS selector into the steps it's matched with.
+ *
+ * Supported are type, universal, class, id and attribute selectors (`[a]`, `[a=b]`, `[a~=b]`, `[a^=b]`, `[a$=b]`
+ * and `[a*=b]`), the descendant and child combinators and selector lists. Pseudo-classes aren't.
+ *
+ * @param {string} selector - The selector, e.g. `table#list > tbody > tr` or `td.indexcolname a`
+ * @returns {Selector} The compiled selector
+ * @throws {Error} If the selector is empty or uses syntax that isn't supported
+ */
+export function compileSelector(selector: string): Selector {
+  const list: Selector = [];
+  let steps: SelectorStep[] = [];
+  let combinator: SelectorStep["combinator"];
+  let index = 0;
+
+  const fail = (): never => {
+    throw new Error(`invalid selector "${selector}"`);
+  };
+
+  const trimmed = selector.trim();
+  while (index < trimmed.length) {
+    const compound: CompoundSelector = { tag: undefined, ids: [], classes: [], attributes: [] };
+    const start = index;
+
+    if (trimmed[index] === "*") {
+      index++;
+    } else {
+      IDENTIFIER.lastIndex = index;
+      const tag = IDENTIFIER.exec(trimmed);
+      if (tag) {
+        compound.tag = tag[0].toLowerCase();
+        index = IDENTIFIER.lastIndex;
+      }
+    }
+
+    while (index < trimmed.length) {
+      const char = trimmed[index];
+
+      if (char === "." || char === "#") {
+        IDENTIFIER.lastIndex = index + 1;
+        const name = IDENTIFIER.exec(trimmed) ?? fail();
+        (char === "." ? compound.classes : compound.ids).push(name[0]);
+        index = IDENTIFIER.lastIndex;
+      } else if (char === "[") {
+        ATTRIBUTE.lastIndex = index;
+        const [, name, operator, doubleQuoted, singleQuoted, unquoted] = ATTRIBUTE.exec(trimmed) ?? fail();
+        compound.attributes.push({
+          name: name!.toLowerCase(),
+          operator: operator as AttributeCondition["operator"],
+          value: doubleQuoted ?? singleQuoted ?? unquoted ?? "",
+        });
+        index = ATTRIBUTE.lastIndex;
+      } else {
+        break;
+      }
+    }
+
+    if (index === start) {
+      fail();
+    }
+
+    steps.push({ compound, combinator });
+
+    COMBINATOR.lastIndex = index;
+    const next = COMBINATOR.exec(trimmed);
+    if (!next) {
+      continue;
+    }
+
+    index = COMBINATOR.lastIndex;
+    if (next[1] === ",") {
+      list.push(steps);
+      steps = [];
+      combinator = undefined;
+    } else {
+      combinator = next[1] === ">" ? ">" : " ";
+    }
+
+    if (index >= trimmed.length) {
+      fail();
+    }
+  }
+
+  if (steps.length === 0) {
+    fail();
+  }
+
+  list.push(steps);
+  return list;
+}
+
+/**
+ * Finds all descendants of a node that match a selector, in document order.
+ * Only the descendants of the node are considered for combinators, like `:scope` selectors do.
+ *
+ * @param {HtmlElement} node - The node to search
+ * @param {Selector} selector - A selector compiled with `compileSelector`
+ * @returns {HtmlElement[]} The matching elements
+ */
+export function selectAll(node: HtmlElement, selector: Selector): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  walkWithAncestors(node, (element, ancestors) => {
+    if (selector.some((steps) => matchSteps(steps, steps.length - 1, element, ancestors, ancestors.length))) {
+      found.push(element);
+    }
+
+    return true;
+  });
+
+  return found;
+}
+
+export function selectFirst(node: HtmlElement, selector: Selector): HtmlElement | undefined {
+  let found: HtmlElement | undefined;
+  walkWithAncestors(node, (element, ancestors) => {
+    if (selector.some((steps) => matchSteps(steps, steps.length - 1, element, ancestors, ancestors.length))) {
+      found = element;
+      return false;
+    }
+
+    return true;
+  });
+
+  return found;
+}
+
+/**
+ * Matches a step and, right to left, the steps before it against the ancestors of the element.
+ */
+function matchSteps(steps: SelectorStep[], index: number, element: HtmlElement, ancestors: HtmlElement[], depth: number): boolean {
+  const step = steps[index]!;
+  if (!matchCompound(step.compound, element)) {
+    return false;
+  }
+
+  if (index === 0) {
+    return true;
+  }
+
+  if (step.combinator === ">") {
+    return depth > 0 && matchSteps(steps, index - 1, ancestors[depth - 1]!, ancestors, depth - 1);
+  }
+
+  for (let i = depth - 1; i >= 0; i--) {
+    if (matchSteps(steps, index - 1, ancestors[i]!, ancestors, i)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function matchCompound(compound: CompoundSelector, element: HtmlElement): boolean {
+  if (compound.tag !== undefined && compound.tag !== element.name) {
+    return false;
+  }
+
+  if (!compound.ids.every((id) => element.attributes.id === id)) {
+    return false;
+  }
+
+  if (!compound.classes.every((className) => hasClass(element, className))) {
+    return false;
+  }
+
+  return compound.attributes.every(({ name, operator, value }) => {
+    const actual = element.attributes[name];
+    if (actual === undefined) {
+      return false;
+    }
+
+    switch (operator) {
+      case undefined:
+        return true;
+      case "=":
+        return actual === value;
+      case "~=":
+        return actual.split(/\s+/).includes(value);
+      case "^=":
+        return value !== "" && actual.startsWith(value);
+      case "$=":
+        return value !== "" && actual.endsWith(value);
+      default:
+        // "*="
+        return value !== "" && actual.includes(value);
+    }
+  });
+}
+
+function walkWithAncestors(node: HtmlElement, visit: (element: HtmlElement, ancestors: HtmlElement[]) => boolean): void {
+  const ancestors: HtmlElement[] = [];
+
+  // iterative, so deeply nested (unclosed) markup can't overflow the stack
+  const pending: [HtmlNode, number][] = node.children.map((child): [HtmlNode, number] => [child, 0]).reverse();
+  while (pending.length > 0) {
+    const [current, depth] = pending.pop()!;
+    if (current.type === "text") {
+      continue;
+    }
+
+    ancestors.length = depth;
+    if (!visit(current, ancestors)) {
+      return;
+    }
+
+    ancestors.push(current);
+    for (let i = current.children.length - 1; i >= 0; i--) {
+      pending.push([current.children[i]!, depth + 1]);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+export interface FileSize {
+  /**
+   * The size exactly as it was printed in the listing (e.g. "1.2K", "34M", "588" or "-")
+   */
+  raw: string;
+
+  /**
+   * The estimated size in bytes, or undefined if the listing didn't print a size ("-")
+   */
+  bytes: number | undefined;
+
+  /**
+   * The smallest byte count that would be printed as `raw`
+   */
+  min: number | undefined;
+
+  /**
+   * The largest byte count that would be printed as `raw`
+   */
+  max: number | undefined;
+}
+
+const SIZE_UNITS = "KMGTPE";
+
+/**
+ * Parses a size as printed by mod_autoindex (`apr_strfsize`) into a byte estimate.
+ *
+ * Apache prints sizes below 973 bytes as is, and larger sizes with a unit suffix,
+ * using one decimal below 10 units ("1.2K") and a rounded integer otherwise ("34M").
+ * The returned `min` and `max` reflect that rounding.
+ *
+ * @param {string} raw - The text of the size column
+ * @returns {FileSize | undefined} The parsed size, or undefined if the text isn't a size
+ */
+export function parseSize(raw: string): FileSize | undefined {
+  const text = raw.trim();
+
+  if (text === "-") {
+    return {
+      raw: text,
+      bytes: undefined,
+      min: undefined,
+      max: undefined,
+    };
+  }
+
+  const match = text.match(/^(\d+)(?:\.(\d))?([KMGTPE])?$/i);
+  if (!match || !match[1]) {
+    return undefined;
+  }
+
+  const [, integer, decimal, unit] = match;
+
+  if (!unit) {
+    // sizes without a unit are exact byte counts
+    const bytes = Number.parseInt(integer, 10);
+
+    return {
+      raw: text,
+      bytes,
+      min: bytes,
+      max: bytes,
+    };
+  }
+
+  const multiplier = 1024 ** (SIZE_UNITS.indexOf(unit.toUpperCase()) + 1);
+
+  // apache rounds to the nearest tenth when printing a decimal, and to the nearest integer otherwise,
+  // so the value is counted in steps of that precision to keep the arithmetic exact.
+  const steps = decimal ? Number.parseInt(integer, 10) * 10 + Number.parseInt(decimal, 10) : Number.parseInt(integer, 10);
+  const divisor = decimal ? 20 : 2;
+
+  return {
+    raw: text,
+    bytes: Math.round((steps * 2 * multiplier) / divisor),
+    min: Math.max(0, Math.ceil(((steps * 2 - 1) * multiplier) / divisor)),
+    max: Math.ceil(((steps * 2 + 1) * multiplier) / divisor) - 1,
+  };
+}
+
+export function exactSize(bytes: number): FileSize {
+  return {
+    raw: String(bytes),
+    bytes,
+    min: bytes,
+    max: bytes,
+  };
+}
+
+/**
+ * Parses a size with a spaced or spelled out unit (e.g. "2.5 MiB", "2560 KB" or "512 B"), as printed by themed listings.
+ * Units are counted in steps of 1024, like the listings that print them do.
+ *
+ * @param {string} raw - The text of the size column
+ * @returns {FileSize | undefined} The parsed size, or undefined if the text isn't a size
+ */
+export function parseUnitSize(raw: string): FileSize | undefined {
+  const text = raw.trim();
+
+  const match = text.match(/^(\d+)(?:\.(\d+))?\s*(?:([KMGTPE])i?)?B?$/i);
+  if (!match || !match[1]) {
+    return undefined;
+  }
+
+  const [, integer, decimal = "", unit] = match;
+  const multiplier = unit ? 1024 ** (SIZE_UNITS.indexOf(unit.toUpperCase()) + 1) : 1;
+
+  // the value is counted in steps of its last printed digit, which is rounded to the nearest step
+  const steps = Number.parseInt(integer + decimal, 10);
+  const divisor = 10 ** decimal.length;
+
+  if (multiplier === 1 && divisor === 1) {
+    return { raw: text, bytes: steps, min: steps, max: steps };
+  }
+
+  return {
+    raw: text,
+    bytes: Math.round((steps * multiplier) / divisor),
+    min: Math.max(0, Math.ceil(((steps * 2 - 1) * multiplier) / (divisor * 2))),
+    max: Math.ceil(((steps * 2 + 1) * multiplier) / (divisor * 2)) - 1,
+  };
+}
@@ -0,0 +1,481 @@
+import type { FormatDetection } from "./detect";
+import type { ParseWarning, ParseWarningCode } from "./diagnostics";
+import type { AutoIndexFormat, Entry, ParseOptions, RegisteredFormat } from "./index";
+import { assertTimezone } from "./date";
+import { detectFormat, inferStructuralFormat } from "./detect";
+import { countEntryLinks, warnNoEntries } from "./diagnostics";
+import { FormatDetectionError, ParseError } from "./errors";
+import { parse } from "./index";
+import { assertKnownFormat } from "./registry";
+
+export type StreamSource = ReadableStream<Uint8Array> | AsyncIterable<string | Uint8Array>;
+
+export interface StreamParser {
+  /**
+   * The format the content is parsed as, undefined until enough content was written to detect it
+   */
+  readonly format: AutoIndexFormat | RegisteredFormat | undefined;
+
+  /**
+   * The detection the format was inferred from, undefined when the format was given or isn't detected yet
+   */
+  readonly detection: FormatDetection | undefined;
+
+  /**
+   * Writes the next chunk of the page.
+   *
+   * @param {string} chunk - The next chunk of the page
+   * @returns {Entry[]} The entries whose rows were completed by this chunk
+   */
+  write: (chunk: string) => Entry[];
+
+  /**
+   * Signals that the whole page was written.
+   *
+   * @returns {Entry[]} The entries of the rows that were still pending
+   */
+  end: () => Entry[];
+}
+
+interface RowSplit {
+  /**
+   * The complete rows, as a document the format's parser accepts
+   */
+  document: string;
+
+  /**
+   * How much of the buffer the rows used, the rest is kept until the next write
+   */
+  consumed: number;
+
+  /**
+   * Why the page as a whole isn't valid, only known once the page has ended
+   */
+  malformed?: string;
+}
+
+type RowSplitter = (buffer: string, final: boolean) => RowSplit;
+
+// the markers of every format appear before the first rows, so the start of the page is enough to detect it
+const DETECTION_WINDOW = 16 * 1024;
+
+const ROW_WARNINGS = new Set<ParseWarningCode>(["skipped-row", "invalid-date", "invalid-size"]);
+
+/**
+ * Creates a parser that is fed a directory listing chunk by chunk.
+ *
+ * Entries are returned as soon as their rows are complete, rows split across chunks are held back until the
+ * next write. Without a format, the content is buffered until the format can be detected.
+ *
+ * @param {ParseOptions} options - Parse options including format, basePath and timezone
+ * @returns {StreamParser} The parser to write the chunks to
+ *
+ * @example
+ * ```ts
+ * import { createStreamParser } from 'apache-autoindex-parse';
+ *
+ * const parser = createStreamParser({ format: 'F2' });
+ * socket.on('data', (chunk) => {
+ *   for (const entry of parser.write(chunk)) {
+ *     console.log(entry.path);
+ *   }
+ * });
+ * socket.on('end', () => console.log(parser.end()));
+ * ```
+ */
+export function createStreamParser(options: ParseOptions = {}): StreamParser {
+  let buffer = "";
+  let ended = false;
+  let written = false;
+  let format = options.format;
+  let detection: FormatDetection | undefined;
+
+  if (format) {
+    assertKnownFormat(format);
+  }
+
+  assertTimezone(options.timezone);
+
+  let splitRows = format ? createRowSplitter(format) : undefined;
+
+  // what the checks of the page as a whole need, which run once it has ended
+  let entryCount = 0;
+  let linkCount = 0;
+  let malformed: ParseWarning | undefined;
+
+  // batches are parsed on their own, so only the warnings about their rows apply to the whole page
+  const onWarning = (warning: ParseWarning): void => {
+    if (warning.code === "malformed-content") {
+      malformed ??= warning;
+    } else if (ROW_WARNINGS.has(warning.code)) {
+      options.onWarning?.(warning);
+    }
+  };
+
+  const warnPage = (warning: ParseWarning): void => {
+    if (options.strict) {
+      throw new ParseError(warning.message, warning.code);
+    }
+
+    options.onWarning?.(warning);
+  };
+
+  function flush(final: boolean): Entry[] {
+    if (!splitRows) {
+      if (!final && buffer.length < DETECTION_WINDOW) {
+        return [];
+      }
+
+      detection = detectFormat(buffer);
+      if (!detection.format && (options.requireListing || options.strict)) {
+        throw new FormatDetectionError(detection);
+      }
+
+      // let parse fall back to the structural format, just like it does for the whole page
+      format = detection.format ?? inferStructuralFormat(buffer);
+      splitRows = createRowSplitter(format);
+
+      if (!detection.format) {
+        options.onWarning?.({ code: "unrecognized-format", message: `content is not a recognized directory listing, parsed as ${format}` });
+      }
+    }
+
+    const split = splitRows(buffer, final);
+
+    // links only matter for pages without entries, so they aren't counted once there is one
+    if (entryCount === 0) {
+      linkCount += countEntryLinks(buffer.slice(0, split.consumed));
+    }
+
+    buffer = buffer.slice(split.consumed);
+    if (split.malformed) {
+      malformed ??= { code: "malformed-content", message: split.malformed };
+    }
+
+    // strict mode only applies to the page as a whole, batches without rows are expected.
+    // external entries are kept, so they count as entries of the page just like they do for parse
+    const entries = parse(split.document, { ...options, format, onWarning, strict: false, externalEntries: "keep" });
+    entryCount += entries.length;
+
+    return options.externalEntries === "keep" ? entries : entries.filter((entry) => !entry.external);
+  }
+
+  return {
+    get format() {
+      return format;
+    },
+    get detection() {
+      return detection;
+    },
+    write(chunk) {
+      if (ended) {
+        throw new Error("cannot write to a stream parser that has ended");
+      }
+
+      buffer += chunk;
+      written ||= chunk.trim() !== "";
+
+      return flush(false);
+    },
+    end() {
+      if (ended) {
+        return [];
+      }
+
+      ended = true;
+      if (!written) {
+        buffer = "";
+        warnPage({ code: "empty-content", message: "content is empty" });
+        return [];
+      }
+
+      const entries = flush(true);
+      buffer = "";
+
+      if (malformed) {
+        warnPage(malformed);
+      }
+
+      if (entryCount === 0) {
+        warnNoEntries(linkCount, { warn: warnPage });
+      }
+
+      return entries;
+    },
+  };
+}
+
+/**
+ * Parses a directory listing from a stream, yielding every entry as soon as its row was received.
+ *
+ * This avoids buffering the whole response of very large directories before the first entry is available.
+ * Bytes are decoded as UTF-8.
+ *
+ * @param {StreamSource} source - A `ReadableStream` (e.g. `response.body`) or an async iterable of chunks
+ * @param {ParseOptions} options - Parse options including format, basePath and timezone
+ * @returns {AsyncGenerator<Entry>} The entries of the listing, in the order of the page
+ *
+ * @example
+ * ```ts
+ * import { parseStream } from 'apache-autoindex-parse';
+ *
+ * const response = await fetch('http://example.com/files/');
+ * for await (const entry of parseStream(response.body)) {
+ *   console.log(entry.path);
+ * }
+ * ```
+ */
+export async function* parseStream(source: StreamSource, options: ParseOptions = {}): AsyncGenerator<Entry> {
+  const parser = createStreamParser(options);
+
+  for await (const chunk of decodeChunks(source)) {
+    yield* parser.write(chunk);
+  }
+
+  yield* parser.end();
+}
+
+/**
+ * Decodes the chunks of a stream as UTF-8, keeping characters split across chunks intact.
+ * Reading stops (and the stream is cancelled) when the consumer stops iterating.
+ */
+export async function* decodeChunks(source: StreamSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+
+  if (isReadableStream(source)) {
+    const reader = source.getReader();
+    let done = false;
+
+    try {
+      while (!done) {
+        const result = await reader.read();
+        done = result.done;
+
+        if (result.value) {
+          yield decoder.decode(result.value, { stream: true });
+        }
+      }
+    } finally {
+      if (!done) {
+        await reader.cancel();
+      }
+
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source) {
+      yield typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    }
+  }
+
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+function isReadableStream(source: StreamSource): source is ReadableStream<Uint8Array> {
+  return typeof (source as ReadableStream<Uint8Array>).getReader === "function";
+}
+
+function createRowSplitter(format: AutoIndexFormat | RegisteredFormat): RowSplitter {
+  switch (format) {
+    case "F0":
+    case "python":
+      return splitAfter(/<\/li>/gi);
+    case "F2":
+    case "lighttpd":
+    case "caddy":
+      return splitAfter(/<\/tr>/gi);
+    case "nginx-xml":
+      return splitAfter(/<\/(?:directory|file|other)>/gi);
+    case "F1":
+      return splitPre(/\n/g, true);
+    case "nginx":
+      return splitPre(/\n/g, false);
+    case "iis":
+      return splitPre(/<br\s*\/?>/gi, false);
+    case "nginx-json":
+    case "caddy-json":
+      return splitJsonArray();
+    case "s3":
+      // a page holds at most 1000 keys, and its common prefixes have to be listed before its objects
+      return bufferAll;
+    default:
+      // the rows of registered formats are unknown, so they are parsed once the page has ended
+      return bufferAll;
+  }
+}
+
+function bufferAll(buffer: string, final: boolean): RowSplit {
+  return final ? { document: buffer, consumed: buffer.length } : { document: "", consumed: 0 };
+}
+
+/**
+ * Splits formats whose parser finds rows anywhere in the page, so rows can be parsed on their own.
+ */
+function splitAfter(rowEnd: RegExp): RowSplitter {
+  return (buffer, final) => {
+    const end = final ? buffer.length : lastRowEnd(buffer, rowEnd, 0);
+    return { document: buffer.slice(0, end), consumed: end };
+  };
+}
+
+/**
+ * Splits formats that list their rows in a `<pre>`, every batch of rows is wrapped in a `<pre>` of its own.
+ * Everything before the listing's `<pre>` and after its `</pre>` is dropped.
+ */
+function splitPre(rowEnd: RegExp, requireLinks: boolean): RowSplitter {
+  let started = false;
+  let finished = false;
+
+  return (buffer, final) => {
+    if (finished) {
+      return { document: "", consumed: buffer.length };
+    }
+
+    let start = 0;
+    if (!started) {
+      const listingStart = findListingStart(buffer, requireLinks);
+      if (listingStart === undefined) {
+        return { document: "", consumed: final ? buffer.length : 0 };
+      }
+
+      started = true;
+      start = listingStart;
+    }
+
+    const close = buffer.slice(start).search(/<\/pre>/i);
+
+    let end;
+    if (close !== -1) {
+      finished = true;
+      end = start + close;
+    } else {
+      end = final ? buffer.length : lastRowEnd(buffer, rowEnd, start);
+    }
+
+    return {
+      document: end > start ? `<pre>${buffer.slice(start, end)}</pre>` : "",
+      consumed: finished ? buffer.length : end,
+    };
+  };
+}
+
+function findListingStart(buffer: string, requireLinks: boolean): number | undefined {
+  const preRegex = /<pre[^>]*>/gi;
+  let match;
+
+  // eslint-disable-next-line no-cond-assign
+  while ((match = preRegex.exec(buffer)) !== null) {
+    const start = match.index + match[0].length;
+    if (!requireLinks) {
+      return start;
+    }
+
+    // plain text headers are wrapped in a <pre> as well, but never contain links
+    const rest = buffer.slice(start);
+    const link = rest.search(/<a\s/i);
+    const close = rest.search(/<\/pre>/i);
+
+    if (link !== -1 && (close === -1 || link < close)) {
+      return start;
+    }
+
+    if (close === -1) {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function lastRowEnd(buffer: string, rowEnd: RegExp, start: number): number {
+  let end = start;
+  rowEnd.lastIndex = start;
+
+  let match;
+
+  // eslint-disable-next-line no-cond-assign
+  while ((match = rowEnd.exec(buffer)) !== null) {
+    end = match.index + match[0].length;
+  }
+
+  return end;
+}
+
+/**
+ * Splits json listings into their top level objects, tracking strings so braces in names don't count.
+ */
+function splitJsonArray(): RowSplitter {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  let isArray = false;
+  let hasRoot = false;
+
+  // how much of the buffer has been scanned, relative to the current buffer
+  let scanned = 0;
+
+  return (buffer, final) => {
+    const items: string[] = [];
+    let consumed = 0;
+
+    for (let i = scanned; i < buffer.length; i++) {
+      const char = buffer[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === "\"") {
+          inString = false;
+        }
+
+        continue;
+      }
+
+      if (char === "\"") {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+
+        if (depth === 1) {
+          isArray = char === "[";
+          hasRoot = true;
+        } else if (depth === 2 && isArray && char === "{") {
+          itemStart = i;
+        }
+      } else if (char === "}" || char === "]") {
+        depth--;
+
+        if (depth === 1 && char === "}" && itemStart !== -1) {
+          items.push(buffer.slice(itemStart, i + 1));
+          itemStart = -1;
+          consumed = i + 1;
+        }
+      }
+    }
+
+    if (final) {
+      consumed = buffer.length;
+    }
+
+    // an unfinished item has to be rescanned from its start once it's complete
+    scanned = buffer.length - consumed;
+    if (itemStart !== -1) {
+      itemStart -= consumed;
+    }
+
+    let malformed: string | undefined;
+    if (final && (depth !== 0 || inString || !hasRoot)) {
+      malformed = "content is not valid json";
+    } else if (final && !isArray) {
+      malformed = "content is not a json array";
+    }
+
+    return { document: items.length > 0 ? `[${items.join(",")}]` : "", consumed, malformed };
+  };
+}
@@ -1,4 +1,5 @@
-import type { AutoIndexFormat, Entry } from "./index";
+import type { AutoIndexFormat, Entry, EntryIcon, EntryKind } from "./index";
+import { parseSize } from "./size";
 
 export interface GenerateHtmlOptions {
   /**
@@ -17,14 +18,33 @@ export interface GenerateHtmlOptions {
    * Custom header content to include (like in unicode.org example)
    */
   headerContent?: string;
+
+  /**
+   * Shortens names longer than this many characters to end with "..>", like Apache's `NameWidth` (only used for F1 and F2)
+   * @default undefined
+   */
+  nameWidth?: number;
 }
 
+// icons used by apache's default autoindex configuration for each kind of entry
+const KIND_ICONS: Record<EntryKind, EntryIcon> = {
+  directory: { src: "/icons/folder.gif", alt: "[DIR]" },
+  text: { src: "/icons/text.gif", alt: "[TXT]" },
+  image: { src: "/icons/image2.gif", alt: "[IMG]" },
+  audio: { src: "/icons/sound2.gif", alt: "[SND]" },
+  video: { src: "/icons/movie.gif", alt: "[VID]" },
+  archive: { src: "/icons/compressed.gif", alt: "[CMP]" },
+  document: { src: "/icons/layout.gif", alt: "[   ]" },
+  binary: { src: "/icons/binary.gif", alt: "[   ]" },
+  unknown: { src: "/icons/unknown.gif", alt: "[   ]" },
+};
+
 /**
  * Generates HTML content for Apache-style directory index listings.
  *
  * This function creates HTML that mimics Apache's autoindex module output,
  * supporting different format types (F0, F1, F2) that correspond to different
- * Apache autoindex display styles.
+ * Apache autoindex display styles. nginx formats are delegated to `generateNginxListing`.
  *
  * @param {Entry[]} entries - Array of directory entries to display in the listing
  * @param {AutoIndexFormat} format - The Apache autoindex format type ("F0", "F1", or "F2")
@@ -36,11 +56,12 @@ export interface GenerateHtmlOptions {
  *
  * @example
  * ```typescript
+ * import { parseSize } from "apache-autoindex-parse";
  * import { generateAutoIndexHtml } from "apache-autoindex-parse/test-utils";
  *
  * const entries = [
- *   { type: "directory", name: "docs", path: "docs/", lastModified: Date.now() },
- *   { type: "file", name: "README.md", path: "README.md", lastModified: Date.now() }
+ *   { type: "directory", name: "docs", path: "docs/", href: "docs/", lastModified: Date.now(), kind: "directory" },
+ *   { type: "file", name: "README.md", path: "README.md", href: "README.md", lastModified: Date.now(), size: parseSize("1.2K"), kind: "text" }
  * ];
  *
  * const html = generateAutoIndexHtml(entries, "F1", {
@@ -54,7 +75,11 @@ export function generateAutoIndexHtml(
   format: AutoIndexFormat,
   options: GenerateHtmlOptions = {},
 ): string {
-  const { title = "Index of /", includeParent = true, headerContent } = options;
+  const { title = "Index of /", includeParent = true, headerContent, nameWidth } = options;
+
+  if (format === "nginx" || format === "nginx-json" || format === "nginx-xml") {
+    return generateNginxListing(entries, format, options);
+  }
 
   const header = `<!DOCTYPE HTML PUBLIC "-//W3C//DTD HTML 3.2 Final//EN">
 <html>
@@ -74,9 +99,9 @@ export function generateAutoIndexHtml(
   if (format === "F0") {
     content += generateF0Content(entries, includeParent, title);
   } else if (format === "F1") {
-    content += generateF1Content(entries, includeParent, title);
+    content += generateF1Content(entries, includeParent, title, nameWidth);
   } else if (format === "F2") {
-    content += generateF2Content(entries, includeParent, title);
+    content += generateF2Content(entries, includeParent, title, nameWidth);
   }
 
   return header + content + footer;
@@ -90,16 +115,15 @@ function generateF0Content(entries: Entry[], includeParent: boolean, title: stri
   }
 
   for (const entry of entries) {
-    const href = entry.path;
     const name = entry.type === "directory" ? `${entry.name}/` : entry.name;
-    content += `<li><a href="${href}"> ${name}</a></li>\n`;
+    content += `<li><a href="${escapeHtml(entry.href)}"> ${escapeHtml(name)}</a></li>\n`;
   }
 
   content += "</ul>";
   return content;
 }
 
-function generateF1Content(entries: Entry[], includeParent: boolean, title: string): string {
+function generateF1Content(entries: Entry[], includeParent: boolean, title: string, nameWidth?: number): string {
   let content = `<h1>${title}</h1>\n<pre>`;
   content += `<img src="/icons/blank.gif" alt="Icon "> <a href="?C=N;O=D;F=1">Name</a>                    <a href="?C=M;O=A;F=1">Last modified</a>      <a href="?C=S;O=A;F=1">Size</a>  <a href="?C=D;O=A;F=1">Description</a><hr>`;
 
@@ -109,20 +133,19 @@ function generateF1Content(entries: Entry[], includeParent: boolean, title: stri
 
   for (const entry of entries) {
     const isDir = entry.type === "directory";
-    const icon = isDir ? `<img src="/icons/folder.gif" alt="[DIR]">` : `<img src="/icons/text.gif" alt="[TXT]">`;
+    const icon = renderIcon(entry);
     const name = isDir ? `${entry.name}/` : entry.name;
-    const href = entry.path;
     const date = entry.lastModified ? new Date(entry.lastModified).toISOString().slice(0, 16).replace("T", " ") : "";
-    const size = isDir ? "-" : "0";
+    const size = entry.type === "file" && entry.size ? entry.size.raw : "-";
 
-    content += `${icon} <a href="${href}">${name.padEnd(24)}</a> ${date.padEnd(17)} ${size.padStart(4)}   \n`;
+    content += `${icon} <a href="${escapeHtml(entry.href)}">${renderName(name, nameWidth).padEnd(24)}</a> ${date.padEnd(17)} ${size.padStart(4)}   ${escapeHtml(entry.description ?? "")}\n`;
   }
 
   content += "<hr></pre>";
   return content;
 }
 
-function generateF2Content(entries: Entry[], includeParent: boolean, title: string): string {
+function generateF2Content(entries: Entry[], includeParent: boolean, title: string, nameWidth?: number): string {
   let content = `<h1>${title}</h1>\n  <table>\n`;
   content += `   <tr><th valign="top">&nbsp;</th><th><a href="?C=N;O=D">Name</a></th><th><a href="?C=M;O=A">Last modified</a></th><th><a href="?C=S;O=A">Size</a></th><th><a href="?C=D;O=A">Description</a></th></tr>\n`;
   content += `   <tr><th colspan="5"><hr></th></tr>\n`;
@@ -133,19 +156,102 @@ function generateF2Content(entries: Entry[], includeParent: boolean, title: stri
 
   for (const entry of entries) {
     const isDir = entry.type === "directory";
-    const icon = isDir ? `<img src="/icons/folder.gif" alt="[DIR]">` : `<img src="/icons/text.gif" alt="[TXT]">`;
+    const icon = renderIcon(entry);
     const name = isDir ? `${entry.name}/` : entry.name;
-    const href = entry.path;
     const date = entry.lastModified ? new Date(entry.lastModified).toISOString().slice(0, 16).replace("T", " ") : "&nbsp;";
-    const size = isDir ? "  - " : "  0 ";
+    const size = entry.type === "file" && entry.size ? entry.size.raw : "-";
 
-    content += `<tr><td valign="top">${icon}</td><td><a href="${href}">${name}</a></td><td align="right">${date}  </td><td align="right">${size}</td><td>&nbsp;</td></tr>\n`;
+    content += `<tr><td valign="top">${icon}</td><td><a href="${escapeHtml(entry.href)}">${renderName(name, nameWidth)}</a></td><td align="right">${date}  </td><td align="right">${size.padStart(3)} </td><td>${entry.description ? escapeHtml(entry.description) : "&nbsp;"}</td></tr>\n`;
   }
 
   content += `   <tr><th colspan="5"><hr></th></tr>\n</table>`;
   return content;
 }
 
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Generates a listing that mimics nginx's autoindex module output.
+ *
+ * @param {Entry[]} entries - Array of directory entries to display in the listing
+ * @param {"nginx" | "nginx-json" | "nginx-xml"} format - The `autoindex_format` to generate (html, json or xml)
+ * @param {GenerateHtmlOptions} options - Configuration options for the listing generation (only used for html)
+ * @returns {string} The listing as nginx would serve it
+ *
+ * @example
+ * ```typescript
+ * import { createSampleEntries, generateNginxListing } from "apache-autoindex-parse/test-utils";
+ *
+ * const json = generateNginxListing(createSampleEntries(), "nginx-json");
+ * ```
+ */
+export function generateNginxListing(
+  entries: Entry[],
+  format: "nginx" | "nginx-json" | "nginx-xml",
+  options: GenerateHtmlOptions = {},
+): string {
+  if (format === "nginx-json") {
+    const items = entries.map((entry) => [
+      `"name":${JSON.stringify(entry.name)}`,
+      `"type":"${entry.type}"`,
+      ...(entry.lastModified !== undefined ? [`"mtime":"${new Date(entry.lastModified).toUTCString()}"`] : []),
+      ...(entry.type === "file" && entry.size?.bytes !== undefined ? [`"size":${entry.size.bytes}`] : []),
+    ].join(", "));
+
+    return `[\n${items.map((item) => `{ ${item} }`).join(",\n")}\n]\n`;
+  }
+
+  if (format === "nginx-xml") {
+    const items = entries.map((entry) => {
+      const mtime = entry.lastModified !== undefined ? ` mtime="${new Date(entry.lastModified).toISOString().replace(/\.\d{3}Z$/, "Z")}"` : "";
+      const size = entry.type === "file" && entry.size?.bytes !== undefined ? ` size="${entry.size.bytes}"` : "";
+      return `<${entry.type}${mtime}${size}>${escapeHtml(entry.name)}</${entry.type}>`;
+    });
+
+    return `<?xml version="1.0"?>\n<list>\n${items.join("\n")}\n</list>\n`;
+  }
+
+  const { title = "Index of /" } = options;
+
+  let content = `<html>\n<head><title>${title}</title></head>\n<body>\n<h1>${title}</h1><hr><pre><a href="../">../</a>\n`;
+
+  for (const entry of entries) {
+    const name = entry.type === "directory" ? `${entry.name}/` : entry.name;
+    const text = name.length > 50 ? `${escapeHtml(name.slice(0, 47))}..&gt;` : escapeHtml(name);
+    const padding = " ".repeat(Math.max(1, 51 - Math.min(name.length, 50)));
+
+    let date = "";
+    if (entry.lastModified !== undefined) {
+      const modified = new Date(entry.lastModified);
+      date = `${String(modified.getUTCDate()).padStart(2, "0")}-${MONTHS[modified.getUTCMonth()]}-${modified.getUTCFullYear()} ${modified.toISOString().slice(11, 16)}`;
+    }
+
+    const size = entry.type === "file" && entry.size?.bytes !== undefined ? String(entry.size.bytes) : "-";
+
+    content += `<a href="${escapeHtml(entry.href)}">${text}</a>${padding}${date.padEnd(17)} ${size.padStart(19)}\n`;
+  }
+
+  content += "</pre><hr></body>\n</html>\n";
+  return content;
+}
+
+function renderName(name: string, nameWidth: number | undefined): string {
+  if (nameWidth === undefined || name.length <= nameWidth) {
+    return escapeHtml(name);
+  }
+
+  return `${escapeHtml(name.slice(0, nameWidth - 3))}..&gt;`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderIcon(entry: Entry): string {
+  const { src = "/icons/unknown.gif", alt = "[   ]" } = entry.icon ?? KIND_ICONS[entry.kind];
+  return `<img src="${src}" alt="${alt}">`;
+}
+
 /**
  * Creates a sample array of directory entries for testing purposes.
  *
@@ -183,25 +289,35 @@ export function createSampleEntries(): Entry[] {
       type: "directory",
       name: "docs",
       path: "docs/",
+      href: "docs/",
       lastModified: Date.now() - 86400000, // 1 day ago
+      kind: "directory",
     },
     {
       type: "directory",
       name: "src",
       path: "src/",
+      href: "src/",
       lastModified: Date.now() - 3600000, // 1 hour ago
+      kind: "directory",
     },
     {
       type: "file",
       name: "README.md",
       path: "README.md",
+      href: "README.md",
       lastModified: Date.now() - 1800000, // 30 minutes ago
+      size: parseSize("1.2K"),
+      kind: "text",
     },
     {
       type: "file",
       name: "package.json",
       path: "package.json",
+      href: "package.json",
       lastModified: Date.now() - 7200000, // 2 hours ago
+      size: parseSize("588"),
+      kind: "text",
     },
   ];
 }
@@ -1,13 +1,31 @@
-import type { AutoIndexFormat, DirectoryEntry, FileEntry } from "./index";
-import { parse } from "./index";
+import type { S3ListPage } from "./formats/s3";
+import type { PathMatcher } from "./glob";
+import type { AutoIndexFormat, DirectoryEntry, Entry, FileEntry, RegisteredFormat } from "./index";
+import type { RateLimiter, RateLimiterOptions } from "./rate-limit";
+import type { RetryOptions } from "./retry";
+import type { Scheduler } from "./scheduler";
+import { assertTimezone } from "./date";
+import { FetchError, HttpError, ParseError } from "./errors";
+import { parseS3Page } from "./formats/s3";
+import { createPathMatcher } from "./glob";
 import { trimLeadingSlash, trimTrailingSlash } from "./lib";
+import { createRateLimiter, isRateLimiter } from "./rate-limit";
+import { assertKnownFormat } from "./registry";
+import { parseRetryAfter, withRetry } from "./retry";
+import { createScheduler } from "./scheduler";
+import { createStreamParser, decodeChunks } from "./stream";
+
+export { createRateLimiter } from "./rate-limit";
+export type { RateLimit, RateLimiter, RateLimiterOptions } from "./rate-limit";
+export type { RetryAttempt, RetryOptions } from "./retry";
 
 export interface TraverseOptions {
   /**
-   * Optional format specification of the auto-index page (will be inferred if not provided)
+   * Optional format specification of the auto-index page (will be inferred if not provided),
+   * either a built-in format or one added with `registerFormat`
    * @default undefined
    */
-  format?: AutoIndexFormat;
+  format?: AutoIndexFormat | RegisteredFormat;
 
   /**
    * Optional base path to prepend to all entry paths
@@ -15,6 +33,12 @@ export interface TraverseOptions {
    */
   basePath?: string;
 
+  /**
+   * Optional timezone the listings' dates are printed in, as an IANA timezone name or a fixed offset
+   * @default "UTC"
+   */
+  timezone?: string;
+
   /**
    * Optional extra headers to include in the request
    * @default {}
@@ -22,11 +46,81 @@ export interface TraverseOptions {
   extraHeaders?: Record<string, string>;
 
   /**
-   * Optional signal to abort the fetch request
+   * Optional signal to abort the traversal, which rejects with the signal's reason
    * @default undefined
    */
   abortSignal?: AbortSignal;
 
+  /**
+   * Optional maximum number of directory listings that are requested at the same time, across the whole traversal.
+   * Directories are still returned in the order of their listings, no matter which request completes first
+   * @default Infinity
+   */
+  concurrency?: number;
+
+  /**
+   * Optional policy to retry requests for listings that fail with a transient error (e.g. a 502 or a reset connection)
+   * with exponential backoff, honoring the `Retry-After` header of 429 and 503 responses. Requests aren't retried without it.
+   * Connections that fail while the page is read are retried as well, reading the page again from the start and
+   * skipping the entries that were already visited
+   * @default undefined
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Optional rate limit for the requests to each host, or a limiter created with `createRateLimiter` to share
+   * one budget per host between several traversals. Every host gets its own budget, and listings that redirect
+   * to another host count against the budget of that host as well, which the next request to it waits for
+   * @default undefined
+   */
+  rateLimit?: RateLimiter | RateLimiterOptions;
+
+  /**
+   * Whether directories whose page isn't recognized as a listing (e.g. an index.html) are returned with `listed: false`
+   * and no children, instead of being parsed as an Apache listing based on their structure like `parse` does.
+   * Implied by `strict`, which rejects with a `FormatDetectionError` instead
+   * @default false
+   */
+  requireListing?: boolean;
+
+  /**
+   * Whether to reject with the first error instead of treating directories that fail as empty, including
+   * `FetchError`s, `HttpError`s, `ParseError`s for directories that don't serve a listing and errors thrown by callbacks
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Optional maximum depth of the directories that are fetched. The entries of the root listing have a depth of 0,
+   * so `0` only fetches the root listing and `1` its subdirectories as well.
+   * Directories below it are included without their children, with `expanded: false`
+   * @default Infinity
+   */
+  maxDepth?: number;
+
+  /**
+   * Optional globs of the paths to include (e.g. `ucd/**\/*.txt`), matched against the paths of the entries
+   * without `basePath`. Directories that can't contain a match aren't fetched. See `matchGlob` for the syntax
+   * @default undefined (all paths)
+   */
+  include?: string | string[];
+
+  /**
+   * Optional globs of the paths to exclude (e.g. `ucd/Unihan/`), excluded directories aren't fetched.
+   * Negated globs are exceptions to them
+   * @default undefined
+   */
+  exclude?: string | string[];
+
+  /**
+   * Callback function invoked for each directory found during traversal, before it is fetched.
+   * @param {DirectoryEntry} directory The directory entry object, with its path in the traversal.
+   * @param {number} depth The depth of the directory, 0 for directories in the root listing.
+   * @returns {TraverseDecision | void | Promise<TraverseDecision | void>} Whether to "skip" the directory, "include" it
+   * without fetching its children or "descend" into it, which is the default.
+   */
+  onBeforeDirectory?: (directory: DirectoryEntry, depth: number) => TraverseDecision | void | Promise<TraverseDecision | void>;
+
   /**
    * Callback function invoked for each file found during traversal.
    * @param {FileEntry} file The file entry object.
@@ -42,12 +136,47 @@ export interface TraverseOptions {
   onDirectory?: (directory: DirectoryEntryWithChildren) => Promise<void> | void;
 }
 
+export interface TraverseBucketOptions extends Omit<TraverseOptions, "format"> {
+  /**
+   * Optional key prefix to start the traversal at (e.g. "releases/")
+   * @default ""
+   */
+  prefix?: string;
+}
+
+/**
+ * What to do with a directory before it is fetched: leave it out of the result ("skip"), include it without
+ * fetching its children ("include") or fetch its children ("descend")
+ */
+export type TraverseDecision = "skip" | "include" | "descend";
+
 type DirectoryEntryWithChildren = DirectoryEntry & {
   children: TraverseEntry[];
+
+  /**
+   * Whether the directory was fetched, false if it was pruned by `maxDepth` or `onBeforeDirectory`,
+   * in which case it has no children
+   */
+  expanded: boolean;
+
+  /**
+   * Whether the directory served a directory listing, false if it served another page instead
+   * (e.g. an index.html) with `requireListing`, or wasn't fetched, in which case it has no children
+   */
+  listed: boolean;
 };
 
 export type TraverseEntry = FileEntry | DirectoryEntryWithChildren;
 
+/**
+ * The state shared by all directories of a traversal.
+ */
+interface Traversal {
+  scheduler: Scheduler;
+  matcher: PathMatcher | undefined;
+  rateLimiter: RateLimiter | undefined;
+}
+
 /**
  * Recursively traverses an Apache autoindex directory structure.
  *
@@ -57,6 +186,7 @@ export type TraverseEntry = FileEntry | DirectoryEntryWithChildren;
  * @param {string} rootUrl - The URL of the Apache autoindex directory to traverse
  * @param {TraverseOptions?} options - Optional configuration for the traversal process
  * @returns {Promise<TraverseEntry[]>} A promise that resolves to a RootEntry object representing the directory structure, or null if parsing failed
+ * @throws {AutoIndexError} If `strict` is set and a directory fails (e.g. a `HttpError` for a 404), or the signal's reason once `abortSignal` is aborted
  *
  * @example
  * ```typescript
@@ -66,27 +196,194 @@ export type TraverseEntry = FileEntry | DirectoryEntryWithChildren;
  * ```
  */
 export async function traverse(rootUrl: string, options?: TraverseOptions): Promise<TraverseEntry[]> {
-  return traverseInternal(rootUrl, "", options);
+  if (options?.format) {
+    assertKnownFormat(options.format);
+  }
+
+  const entries = await traverseInternal(rootUrl, "", 0, createTraversal(options), options);
+
+  // directories that finished before the signal was aborted don't make the tree complete
+  options?.abortSignal?.throwIfAborted();
+
+  return entries ?? [];
 }
 
-async function traverseInternal(rootUrl: string, pathPrefix: string, options?: TraverseOptions): Promise<TraverseEntry[]> {
+/**
+ * Resolves to undefined when the page isn't a directory listing, to tell it apart from an empty directory.
+ */
+async function traverseInternal(
+  rootUrl: string,
+  pathPrefix: string,
+  depth: number,
+  traversal: Traversal,
+  options?: TraverseOptions,
+): Promise<TraverseEntry[] | undefined> {
+  const entries: Promise<TraverseEntry | undefined>[] = [];
+
   try {
-    const res = await fetch(rootUrl, {
-      headers: {
-        "User-Agent": "github.com/luxass/apache-autoindex-parse",
-        ...options?.extraHeaders,
-      },
-      signal: options?.abortSignal,
+    const visitEntry = async (entry: Entry): Promise<TraverseEntry | undefined> => {
+      const joined = pathPrefix
+        ? `${trimTrailingSlash(pathPrefix)}/${trimLeadingSlash(entry.path)}`
+        : trimLeadingSlash(entry.path);
+
+      const normalized = normalizeTraversePath(joined, entry.type === "directory");
+
+      const fullPath = options?.basePath
+        ? normalizeWithBasePath(normalized, entry.type === "directory", options.basePath)
+        : normalized;
+
+      if (entry.type === "file") {
+        if (traversal.matcher && !traversal.matcher.matches(normalized)) {
+          return undefined;
+        }
+
+        const newFileEntry = {
+          ...entry,
+          path: fullPath,
+        };
+
+        await options?.onFile?.(newFileEntry);
+        return newFileEntry;
+      }
+
+      // the href was resolved like a browser would, so absolute links (e.g. from IIS) work as well, while links
+      // outside of the directory (e.g. to other hosts) were dropped, and so were hrefs that can't be resolved
+      const { url } = entry;
+      if (url === undefined || (traversal.matcher && !traversal.matcher.mayContain(normalized))) {
+        return undefined;
+      }
+
+      const directory = { ...entry, name: trimTrailingSlash(entry.name), path: fullPath };
+      const decision = await decideDescent(directory, depth, options);
+      if (decision === "skip") {
+        return undefined;
+      }
+
+      const child = decision === "descend"
+        ? await traverseInternal(url, normalized, depth + 1, traversal, options)
+        : undefined;
+
+      const dirEntry = {
+        ...directory,
+        children: child ?? [],
+        expanded: decision === "descend",
+        listed: child !== undefined,
+      };
+
+      await options?.onDirectory?.(dirEntry);
+
+      return dirEntry;
+    };
+
+    // the request counts against the concurrency until its listing was read, but not while its subdirectories are
+    const listed = await readListing(rootUrl, traversal, options, async (listing) => {
+      const parser = createStreamParser({
+        format: options?.format,
+        timezone: options?.timezone,
+        strict: options?.strict,
+        // links are relative to the page that was served, which differs from rootUrl after a redirect
+        pageUrl: listing.url,
+      });
+
+      // without an explicit format, pages that aren't listings are recognized as soon as the format is detected
+      const isListing = (): boolean => !options?.requireListing || options.format !== undefined || parser.detection?.format !== undefined;
+
+      // an attempt that is retried after a failed connection receives the rows of the failed attempts again,
+      // which were visited already, assuming the listing didn't change in the meantime
+      let received = 0;
+      const visitRows = (rows: Entry[]): void => {
+        entries.push(...rows.slice(entries.length - received).map(visitEntry));
+        received += rows.length;
+      };
+
+      // entries are visited as soon as their rows arrive, instead of after the whole page was downloaded
+      for await (const chunk of listing.chunks) {
+        options?.abortSignal?.throwIfAborted();
+
+        const rows = parser.write(chunk);
+        if (parser.format && !isListing()) {
+          return false;
+        }
+
+        visitRows(rows);
+      }
+
+      const rows = parser.end();
+      if (!isListing()) {
+        return false;
+      }
+
+      visitRows(rows);
+      return true;
     });
 
-    if (!res.ok) {
-      throw new Error(`failed to fetch directory listing from ${rootUrl}: ${res.status} ${res.statusText}`);
+    if (!listed) {
+      return undefined;
     }
 
-    const html = await res.text();
-    const rootEntries = parse(html, options?.format);
+    return withoutSkipped(await Promise.all(entries));
+  } catch (error) {
+    // the entries visited before the error are left behind, but mustn't reject unhandled
+    void Promise.allSettled(entries);
+
+    return handleError(error, rootUrl, options);
+  }
+}
+
+/**
+ * Recursively traverses an S3-compatible bucket (e.g. AWS S3 or MinIO) through its `ListObjectsV2` API.
+ *
+ * Every "directory" is listed with `delimiter=/`, following `continuation-token` pagination until the
+ * listing is no longer truncated, and its common prefixes are traversed the same way as the
+ * subdirectories of an autoindex page.
+ *
+ * @param {string} bucketUrl - The URL of the bucket (e.g. "https://bucket.s3.amazonaws.com" or "http://localhost:9000/bucket")
+ * @param {TraverseBucketOptions?} options - Optional configuration for the traversal process
+ * @returns {Promise<TraverseEntry[]>} A promise that resolves to the entries of the bucket, relative to the starting prefix
+ * @throws {AutoIndexError} If `strict` is set and a prefix fails, or the signal's reason once `abortSignal` is aborted
+ *
+ * @example
+ * ```typescript
+ * import { traverseBucket } from 'apache-autoindex-parse/traverse';
+ *
+ * const bucketStructure = await traverseBucket('https://example-bucket.s3.amazonaws.com', { prefix: 'releases/' });
+ * ```
+ */
+export async function traverseBucket(bucketUrl: string, options?: TraverseBucketOptions): Promise<TraverseEntry[]> {
+  const entries = await traverseBucketInternal(bucketUrl, options?.prefix ?? "", "", 0, createTraversal(options), options);
+  options?.abortSignal?.throwIfAborted();
 
-    if (!rootEntries) return [];
+  return entries;
+}
+
+async function traverseBucketInternal(
+  bucketUrl: string,
+  prefix: string,
+  pathPrefix: string,
+  depth: number,
+  traversal: Traversal,
+  options?: TraverseBucketOptions,
+): Promise<TraverseEntry[]> {
+  try {
+    const rootEntries: Entry[] = [];
+    const prefixKeys = new Map<Entry, string>();
+    const listedPaths = new Set<string>();
+    const usedTokens = new Set<string>();
+    let continuationToken: string | undefined;
+
+    do {
+      const listUrl = createBucketListUrl(bucketUrl, prefix, continuationToken);
+      const page = await readListing(listUrl, traversal, options, async (listing) => parseS3Page(await readAll(listing.chunks)));
+
+      // a server that doesn't advance returns the entries of an earlier page again
+      for (const entry of page.entries.filter((entry) => !listedPaths.has(entry.path))) {
+        listedPaths.add(entry.path);
+        rootEntries.push(entry);
+      }
+
+      page.prefixKeys.forEach((key, entry) => prefixKeys.set(entry, key));
+      continuationToken = nextContinuationToken(page, usedTokens, options);
+    } while (continuationToken);
 
     const entries = await Promise.all(
       rootEntries.map(async (entry) => {
@@ -101,6 +398,10 @@ async function traverseInternal(rootUrl: string, pathPrefix: string, options?: T
           : normalized;
 
         if (entry.type === "file") {
+          if (traversal.matcher && !traversal.matcher.matches(normalized)) {
+            return undefined;
+          }
+
           const newFileEntry = {
             ...entry,
             path: fullPath,
@@ -110,19 +411,25 @@ async function traverseInternal(rootUrl: string, pathPrefix: string, options?: T
           return newFileEntry;
         }
 
-        const childPathSegment = trimLeadingSlash(entry.path);
-        const childUrl = rootUrl.endsWith("/")
-          ? `${rootUrl}${childPathSegment}`
-          : `${rootUrl}/${childPathSegment}`;
+        if (traversal.matcher && !traversal.matcher.mayContain(normalized)) {
+          return undefined;
+        }
 
-        const child = await traverseInternal(childUrl, normalized, options);
+        const directory = { ...entry, path: fullPath };
+        const decision = await decideDescent(directory, depth, options);
+        if (decision === "skip") {
+          return undefined;
+        }
 
-        entry.name = trimTrailingSlash(entry.name);
+        const child = decision === "descend"
+          ? await traverseBucketInternal(bucketUrl, prefixKeys.get(entry) ?? `${prefix}${entry.name}/`, normalized, depth + 1, traversal, options)
+          : undefined;
 
         const dirEntry = {
-          ...entry,
-          path: fullPath,
-          children: child,
+          ...directory,
+          children: child ?? [],
+          expanded: decision === "descend",
+          listed: child !== undefined,
         };
 
         await options?.onDirectory?.(dirEntry);
@@ -131,10 +438,207 @@ async function traverseInternal(rootUrl: string, pathPrefix: string, options?: T
       }),
     );
 
-    return entries;
-  } catch {
+    return withoutSkipped(entries);
+  } catch (error) {
+    return handleError(error, bucketUrl, options);
+  }
+}
+
+/**
+ * Returns the token to list the page after this one with, or undefined once the listing is complete.
+ *
+ * A truncated page without a token, or with one that was used before (e.g. from a proxy that drops the query),
+ * would be listed forever, so the listing stops there, or throws a `ParseError` in strict mode.
+ */
+function nextContinuationToken(page: S3ListPage, usedTokens: Set<string>, options?: TraverseBucketOptions): string | undefined {
+  const token = page.nextContinuationToken;
+  if (!page.isTruncated) {
+    return undefined;
+  }
+
+  if (!token || usedTokens.has(token)) {
+    if (options?.strict) {
+      throw new ParseError(
+        token ? `continuation token ${token} was returned again` : "truncated page has no continuation token",
+        "malformed-content",
+      );
+    }
+
+    return undefined;
+  }
+
+  usedTokens.add(token);
+  return token;
+}
+
+function createTraversal(options?: TraverseOptions): Traversal {
+  assertMaxDepth(options?.maxDepth);
+  assertTimezone(options?.timezone);
+
+  return {
+    scheduler: createScheduler(options?.concurrency ?? Infinity),
+    matcher: options?.include !== undefined || options?.exclude !== undefined
+      ? createPathMatcher({ include: options.include, exclude: options.exclude })
+      : undefined,
+    rateLimiter: options?.rateLimit === undefined || isRateLimiter(options.rateLimit)
+      ? options?.rateLimit
+      : createRateLimiter(options.rateLimit),
+  };
+}
+
+/**
+ * Asks `onBeforeDirectory` whether to fetch a directory, directories deeper than `maxDepth` are included without it.
+ */
+async function decideDescent(directory: DirectoryEntry, depth: number, options?: TraverseOptions): Promise<TraverseDecision> {
+  const decision = await options?.onBeforeDirectory?.(directory, depth) ?? "descend";
+
+  if (decision === "descend" && depth >= (options?.maxDepth ?? Infinity)) {
+    return "include";
+  }
+
+  return decision;
+}
+
+function withoutSkipped(entries: (TraverseEntry | undefined)[]): TraverseEntry[] {
+  return entries.filter((entry) => entry !== undefined);
+}
+
+function assertMaxDepth(maxDepth: number | undefined): void {
+  if (maxDepth !== undefined && maxDepth !== Infinity && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+    throw new RangeError(`maxDepth must be a non-negative integer, got ${maxDepth}`);
+  }
+}
+
+/**
+ * Directories that fail are treated as empty, unless the traversal is strict or was aborted.
+ */
+function handleError(error: unknown, url: string, options?: Pick<TraverseOptions, "strict" | "abortSignal">): [] {
+  // an aborted traversal rejects, instead of resolving with the part of the tree that was fetched so far
+  if (options?.abortSignal?.aborted) {
+    throw options.abortSignal.reason;
+  }
+
+  if (!options?.strict) {
     return [];
   }
+
+  if (error instanceof ParseError) {
+    error.url ??= url;
+  }
+
+  throw error;
+}
+
+interface Listing {
+  /**
+   * The URL of the page that was served, which differs from the requested one after a redirect
+   */
+  url: string;
+
+  /**
+   * The decoded chunks of the page, reading them throws a `FetchError` when the connection fails
+   */
+  chunks: AsyncIterable<string>;
+}
+
+/**
+ * Requests a listing and reads it with `read`, retrying both with the policy of the traversal. A page whose
+ * connection fails half way is read again from the start.
+ *
+ * Only the request and the read take up a slot of the scheduler, the delays between attempts and the wait
+ * for the rate limit don't keep other listings from being requested.
+ */
+async function readListing<T>(
+  url: string,
+  traversal: Traversal,
+  options: Pick<TraverseOptions, "extraHeaders" | "abortSignal" | "retry"> | undefined,
+  read: (listing: Listing) => Promise<T>,
+): Promise<T> {
+  return withRetry(url, async () => {
+    // every attempt counts against the budget of the host, retries included
+    await traversal.rateLimiter?.acquire(url, options?.abortSignal);
+
+    return traversal.scheduler.run(async () => {
+      const res = await requestListing(url, options);
+
+      // fetch follows redirects on its own, so the host the listing was served from is charged afterwards
+      if (res.url && new URL(res.url).origin !== new URL(url).origin) {
+        traversal.rateLimiter?.charge(res.url);
+      }
+
+      return read({ url: res.url || url, chunks: readChunks(res, url, options) });
+    });
+  }, options?.retry, options?.abortSignal);
+}
+
+async function* readChunks(res: Response, url: string, options?: Pick<TraverseOptions, "abortSignal">): AsyncGenerator<string> {
+  try {
+    if (res.body) {
+      yield* decodeChunks(res.body);
+    } else {
+      yield await res.text();
+    }
+  } catch (error) {
+    if (options?.abortSignal?.aborted) {
+      throw error;
+    }
+
+    throw new FetchError(`failed to read directory listing from ${url}`, url, { cause: error });
+  }
+}
+
+async function readAll(chunks: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of chunks) {
+    text += chunk;
+  }
+
+  return text;
+}
+
+async function requestListing(url: string, options?: Pick<TraverseOptions, "extraHeaders" | "abortSignal">): Promise<Response> {
+  options?.abortSignal?.throwIfAborted();
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      headers: {
+        "User-Agent": "github.com/luxass/apache-autoindex-parse",
+        ...options?.extraHeaders,
+      },
+      signal: options?.abortSignal,
+    });
+  } catch (error) {
+    if (options?.abortSignal?.aborted) {
+      throw error;
+    }
+
+    throw new FetchError(`failed to fetch directory listing from ${url}`, url, { cause: error });
+  }
+
+  if (!res.ok) {
+    // the body of the failed response isn't read, but has to be released for the connection to be reused
+    await res.body?.cancel();
+    throw new HttpError(url, res.status, res.statusText, parseRetryAfter(res.headers.get("retry-after")));
+  }
+
+  return res;
+}
+
+function createBucketListUrl(bucketUrl: string, prefix: string, continuationToken: string | undefined): string {
+  const url = new URL(bucketUrl);
+  url.searchParams.set("list-type", "2");
+  url.searchParams.set("delimiter", "/");
+
+  if (prefix) {
+    url.searchParams.set("prefix", prefix);
+  }
+
+  if (continuationToken) {
+    url.searchParams.set("continuation-token", continuationToken);
+  }
+
+  return url.toString();
 }
 
 function ensureTrailingSlash(path: string): string {
@@ -1,7 +1,55 @@
+import type { Mock } from "vitest";
+import type { Entry } from "../src";
+import type { TraverseEntry } from "../src/traverse";
 import { join } from "node:path";
+import { vi } from "vitest";
+import { generateAutoIndexHtml } from "../src/test-utils";
 
 export function createFixture(name: string): (path: string) => string {
   return (path: string) => {
     return join(import.meta.dirname, "fixtures", name, path);
   };
 }
+
+export function directory(name: string): Entry {
+  return { type: "directory", name, path: `${name}/`, href: `${name}/`, lastModified: undefined, kind: "directory" };
+}
+
+export function file(name: string): Entry {
+  return { type: "file", name, path: name, href: name, lastModified: undefined, size: undefined, kind: "text" };
+}
+
+export type ListingFetch = Mock<(url: string) => Promise<Response>>;
+
+/**
+ * Stubs fetch with F2 listings, looked up by URL or by pathname. URLs without a listing are served an empty one.
+ *
+ * Redirected URLs are served the listing of their target, whose URL becomes the response's `url`,
+ * just like fetch reports it after following a redirect.
+ */
+export function stubListings(listings: Record<string, Entry[]>, redirects: Record<string, string> = {}): ListingFetch {
+  const mockFetch = vi.fn(async (url: string) => {
+    const servedUrl = redirects[url] ?? url;
+    const res = new Response(generateAutoIndexHtml(listings[servedUrl] ?? listings[new URL(servedUrl).pathname] ?? [], "F2"));
+    Object.defineProperty(res, "url", { value: servedUrl });
+
+    return res;
+  });
+  vi.stubGlobal("fetch", mockFetch);
+
+  return mockFetch;
+}
+
+/**
+ * The pathnames of the URLs that were fetched, in the order they were requested in.
+ */
+export function fetched(mockFetch: ListingFetch): string[] {
+  return mockFetch.mock.calls.map(([url]) => new URL(url).pathname);
+}
+
+/**
+ * The paths of a traversed tree, every directory followed by its children.
+ */
+export function paths(entries: TraverseEntry[]): string[] {
+  return entries.flatMap((entry) => entry.type === "directory" ? [entry.path, ...paths(entry.children)] : [entry.path]);
+}
@@ -0,0 +1,75 @@
+import type { AutoIndexFormat } from "../src";
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parse } from "../src";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("awkward");
+
+describe("awkward markup", () => {
+  it.each([
+    ["f0-nested-markup.html", "F0"],
+    ["f1-icons-are-links.html", "F1"],
+    ["f2-omitted-end-tags.html", "F2"],
+    ["nginx-attributes.html", "nginx"],
+    ["lighttpd-quotes.html", "lighttpd"],
+    ["python-unquoted.html", "python"],
+    ["iis-lowercase.html", "iis"],
+  ] as [string, AutoIndexFormat][])("parses %s", (file, format) => {
+    const html = readFileSync(fixture(file), "utf-8");
+    const entries = parse(html, format);
+
+    expect(entries.map((entry) => [entry.type, entry.name, entry.path])).toStrictEqual([
+      ["directory", "docs", "docs/"],
+      ["file", "release.tar.gz", "release.tar.gz"],
+      ["file", "notes & todo.txt", "notes.txt"],
+    ]);
+  });
+
+  it.each([
+    ["f1-icons-are-links.html", "F1"],
+    ["f2-omitted-end-tags.html", "F2"],
+  ] as [string, AutoIndexFormat][])("parses the columns of %s", (file, format) => {
+    const html = readFileSync(fixture(file), "utf-8");
+    const [docs, release, notes] = parse(html, format);
+
+    expect(docs).toMatchObject({
+      href: "docs/",
+      lastModifiedRaw: "2024-03-01 10:00",
+      description: "Documentation",
+      icon: { src: "/icons/folder.gif", alt: "[DIR]" },
+    });
+
+    expect(release).toMatchObject({
+      href: "release.tar.gz",
+      lastModified: Date.UTC(2024, 2, 2, 11, 30),
+      size: { raw: "2.5M" },
+      description: "Release tarball",
+      kind: "archive",
+      icon: { src: "/icons/compressed.gif", alt: "[CMP]" },
+    });
+
+    expect(notes).toMatchObject({
+      href: "notes.txt",
+      size: { raw: "512", bytes: 512 },
+      icon: { alt: "[TXT]" },
+    });
+    expect(notes).not.toHaveProperty("description");
+  });
+
+  it("parses the columns of lighttpd listings with omitted end tags", () => {
+    const html = readFileSync(fixture("lighttpd-quotes.html"), "utf-8");
+    const [docs, release] = parse(html, "lighttpd");
+
+    expect(docs).toMatchObject({ lastModifiedRaw: "2024-Mar-01 10:00:00" });
+    expect(release).toMatchObject({ lastModifiedRaw: "2024-Mar-02 11:30:00", size: { raw: "2.5M" } });
+  });
+
+  it("ignores links in comments and scripts", () => {
+    for (const file of ["f0-nested-markup.html", "f1-icons-are-links.html", "f2-omitted-end-tags.html", "nginx-attributes.html", "iis-lowercase.html"]) {
+      const html = readFileSync(fixture(file), "utf-8");
+
+      expect(parse(html).map((entry) => entry.name)).not.toContainEqual(expect.stringMatching(/commented-out|hidden|from-script/));
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { inferFormat, parse } from "../src";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("caddy");
+
+describe("caddy", () => {
+  it.each([
+    ["directory.html", "caddy"],
+    ["directory.json", "caddy-json"],
+  ])("infers the format of %s", (file, format) => {
+    const content = readFileSync(fixture(file), "utf-8");
+
+    expect(inferFormat(content)).toBe(format);
+  });
+
+  it("doesn't mistake nginx json for caddy json", () => {
+    const json = readFileSync(createFixture("nginx")("directory.json"), "utf-8");
+
+    expect(inferFormat(json)).toBe("nginx-json");
+  });
+
+  it.each([
+    ["directory.html"],
+    ["directory.json"],
+  ])("parses %s", (file) => {
+    const content = readFileSync(fixture(file), "utf-8");
+    const entries = parse(content);
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual([
+      "level2/",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "release.tar.gz",
+      "файл.txt",
+    ]);
+
+    expect(entries.map((entry) => entry.name)).toStrictEqual([
+      "level2",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "release.tar.gz",
+      "файл.txt",
+    ]);
+
+    const [level2, , dashes] = entries;
+
+    expect(level2?.type).toBe("directory");
+    expect(Math.floor(level2!.lastModified! / 1000) * 1000).toBe(Date.UTC(2025, 5, 20, 2, 15, 11));
+    expect(level2).not.toHaveProperty("size");
+    expect(dashes).toMatchObject({
+      type: "file",
+      size: { raw: "1532", bytes: 1532, min: 1532, max: 1532 },
+      lastModifiedPrecision: "second",
+      kind: "document",
+    });
+  });
+
+  it("keeps sub-second precision from the json listing", () => {
+    const json = readFileSync(fixture("directory.json"), "utf-8");
+    const [level2] = parse(json, "caddy-json");
+
+    expect(level2?.lastModified).toBe(Date.UTC(2025, 5, 20, 2, 15, 11, 482));
+  });
+});
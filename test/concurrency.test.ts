@@ -0,0 +1,117 @@
+import type { AddressInfo } from "node:net";
+import { createServer } from "node:http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createScheduler } from "../src/scheduler";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { traverse } from "../src/traverse";
+import { directory, file, paths } from "./__utils";
+
+// six directories with three subdirectories each, so an unbounded traversal requests up to 18 listings at once
+function listingOf(path: string): string {
+  const depth = path.split("/").filter(Boolean).length;
+  const children = depth === 0 ? ["a", "b", "c", "d", "e", "f"] : depth === 1 ? ["x", "y", "z"] : [];
+
+  return generateAutoIndexHtml([...children.map(directory), file(`${depth}.txt`)], "F2");
+}
+
+let baseUrl: string;
+let inFlight = 0;
+let peak = 0;
+let requested: string[] = [];
+
+const server = createServer((req, res) => {
+  inFlight++;
+  peak = Math.max(peak, inFlight);
+  requested.push(req.url!);
+
+  // listings later in the tree are served faster, so responses complete in a different order than they were sent in
+  const delay = 40 - (req.url!.length * 7) % 40;
+
+  setTimeout(() => {
+    inFlight--;
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(listingOf(req.url!));
+  }, delay);
+});
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+beforeEach(() => {
+  inFlight = 0;
+  peak = 0;
+  requested = [];
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("concurrency", () => {
+  it("requests every listing at once by default", async () => {
+    const entries = await traverse(baseUrl, { format: "F2" });
+
+    expect(requested).toHaveLength(25);
+    expect(paths(entries)).toHaveLength(49);
+    expect(peak).toBeGreaterThan(4);
+  });
+
+  it.each([1, 2, 4])("requests at most %i listings at once", async (concurrency) => {
+    const expected = paths(await traverse(baseUrl, { format: "F2" }));
+    peak = 0;
+
+    const entries = await traverse(baseUrl, { format: "F2", concurrency });
+
+    expect(peak).toBe(concurrency);
+    expect(paths(entries)).toStrictEqual(expected);
+  });
+
+  it("requests listings in the same order every time", async () => {
+    await traverse(baseUrl, { format: "F2", concurrency: 3 });
+    const first = requested;
+    requested = [];
+
+    await traverse(baseUrl, { format: "F2", concurrency: 3 });
+
+    expect(requested).toStrictEqual(first);
+    expect(first.slice(0, 7)).toStrictEqual(["/", "/a/", "/b/", "/c/", "/d/", "/e/", "/f/"]);
+  });
+
+  it("limits the whole traversal instead of each directory", async () => {
+    await traverse(baseUrl, { format: "F2", concurrency: 5 });
+
+    // six directories on the first level and three on the second would make up to 18 with a limit per directory
+    expect(peak).toBe(5);
+  });
+
+  it.each([0, -1, 1.5, Number.NaN])("rejects a concurrency of %d", async (concurrency) => {
+    await expect(traverse(baseUrl, { concurrency })).rejects.toThrow(RangeError);
+    expect(requested).toStrictEqual([]);
+  });
+});
+
+describe("createScheduler", () => {
+  it("starts waiting tasks first in, first out", async () => {
+    const scheduler = createScheduler(1);
+    const started: number[] = [];
+
+    await Promise.all([3, 1, 2].map((delay) => scheduler.run(async () => {
+      started.push(delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    })));
+
+    expect(started).toStrictEqual([3, 1, 2]);
+  });
+
+  it("frees the slot of tasks that fail", async () => {
+    const scheduler = createScheduler(1);
+
+    await expect(scheduler.run(async () => {
+      throw new Error("failed");
+    })).rejects.toThrow("failed");
+    await expect(scheduler.run(async () => "next")).resolves.toBe("next");
+  });
+});
@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parse, parseDate } from "../src";
+import { createFixture } from "./__utils";
+
+describe("parseDate", () => {
+  it.each([
+    // apache 2.4
+    ["2024-05-01 13:37", Date.UTC(2024, 4, 1, 13, 37), "minute"],
+    ["2024-05-01 13:37:42", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+    ["1999-12-31 23:59", Date.UTC(1999, 11, 31, 23, 59), "minute"],
+
+    // apache 2.2 and nginx
+    ["01-May-2024 13:37", Date.UTC(2024, 4, 1, 13, 37), "minute"],
+    ["01-May-2024 13:37:42", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+    ["1-MAY-2024 09:05", Date.UTC(2024, 4, 1, 9, 5), "minute"],
+
+    // localized month names
+    ["15-Jän-2024 13:37", Date.UTC(2024, 0, 15, 13, 37), "minute"],
+    ["15-Mär-2024 13:37", Date.UTC(2024, 2, 15, 13, 37), "minute"],
+    ["15-Okt-2024 13:37", Date.UTC(2024, 9, 15, 13, 37), "minute"],
+    ["15-Dez-2024 13:37", Date.UTC(2024, 11, 15, 13, 37), "minute"],
+    ["15-févr.-2024 13:37", Date.UTC(2024, 1, 15, 13, 37), "minute"],
+    ["15-juin-2024 13:37", Date.UTC(2024, 5, 15, 13, 37), "minute"],
+    ["15-juil.-2024 13:37", Date.UTC(2024, 6, 15, 13, 37), "minute"],
+    ["15-août-2024 13:37", Date.UTC(2024, 7, 15, 13, 37), "minute"],
+    ["15-ene-2024 13:37", Date.UTC(2024, 0, 15, 13, 37), "minute"],
+    ["15-dic-2024 13:37", Date.UTC(2024, 11, 15, 13, 37), "minute"],
+    ["15-mag-2024 13:37", Date.UTC(2024, 4, 15, 13, 37), "minute"],
+    ["15-mrt-2024 13:37", Date.UTC(2024, 2, 15, 13, 37), "minute"],
+    ["15-out-2024 13:37", Date.UTC(2024, 9, 15, 13, 37), "minute"],
+    ["15-maj-2024 13:37", Date.UTC(2024, 4, 15, 13, 37), "minute"],
+
+    // lighttpd
+    ["2024-May-01 13:37:42", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+
+    // iso 8601
+    ["2024-05-01T13:37:42Z", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+    ["2024-05-01T13:37:42.123456789+02:00", Date.UTC(2024, 4, 1, 11, 37, 42, 123), "second"],
+    ["2024-05-01T13:37-0530", Date.UTC(2024, 4, 1, 19, 7), "minute"],
+
+    // iis
+    ["5/1/2024  1:37 PM", Date.UTC(2024, 4, 1, 13, 37), "minute"],
+    ["12/31/2024 12:05 AM", Date.UTC(2024, 11, 31, 0, 5), "minute"],
+    ["5/1/2024 12:00 PM", Date.UTC(2024, 4, 1, 12, 0), "minute"],
+    ["Wednesday, May 01, 2024  1:37 PM", Date.UTC(2024, 4, 1, 13, 37), "minute"],
+    ["Friday, June 20, 2025 2:14:03 AM", Date.UTC(2025, 5, 20, 2, 14, 3), "second"],
+
+    // http dates
+    ["Wed, 01 May 2024 13:37:42 GMT", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+    ["01 May 2024 13:37:42 +0200", Date.UTC(2024, 4, 1, 11, 37, 42), "second"],
+    ["Wednesday, 01-May-24 13:37:42 GMT", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+    ["Friday, 31-Dec-99 23:59:59 GMT", Date.UTC(1999, 11, 31, 23, 59, 59), "second"],
+    ["Wed May  1 13:37:42 2024", Date.UTC(2024, 4, 1, 13, 37, 42), "second"],
+  ] as const)("parses %j", (raw, timestamp, precision) => {
+    expect(parseDate(raw)).toStrictEqual({ timestamp, raw, precision });
+  });
+
+  it.each([
+    "",
+    "-",
+    "&nbsp;",
+    "yesterday",
+    "2024-13-01 10:00",
+    "2024-02-30 10:00",
+    "2023-02-29 10:00",
+    "2024-05-01 24:00",
+    "2024-05-01 13:60",
+    "01-Foo-2024 13:37",
+    "01-May-2024",
+    "2024-05-01 13:37 and more",
+    "5/1/2024 13:37 PM",
+    "Wednesday, Foo 01, 2024 1:37 PM",
+  ])("rejects %j", (raw) => {
+    expect(parseDate(raw)).toBeUndefined();
+  });
+
+  it("accepts leap days", () => {
+    expect(parseDate("2024-02-29 10:00")?.timestamp).toBe(Date.UTC(2024, 1, 29, 10, 0));
+  });
+
+  it("interprets dates without an offset in the given timezone", () => {
+    expect(parseDate("01-May-2024 13:37", "Europe/Berlin")?.timestamp).toBe(Date.UTC(2024, 4, 1, 11, 37));
+  });
+
+  it("ignores the timezone for dates with an explicit offset", () => {
+    expect(parseDate("Wed, 01 May 2024 13:37:42 GMT", "Europe/Berlin")?.timestamp).toBe(Date.UTC(2024, 4, 1, 13, 37, 42));
+    expect(parseDate("2024-05-01T13:37:42+01:00", "Asia/Tokyo")?.timestamp).toBe(Date.UTC(2024, 4, 1, 12, 37, 42));
+  });
+
+  it("produces years before 100 without shifting them", () => {
+    expect(parseDate("0099-01-01 00:00")?.timestamp).toBe(new Date("0099-01-01T00:00:00Z").getTime());
+  });
+});
+
+describe("dates in listings", () => {
+  it.each([
+    ["15-Okt-2024 13:37", Date.UTC(2024, 9, 15, 13, 37)],
+    ["2024-10-15 13:37:42", Date.UTC(2024, 9, 15, 13, 37, 42)],
+    ["15-Oct-2024 13:37:42", Date.UTC(2024, 9, 15, 13, 37, 42)],
+  ])("extracts %j from F1 rows alongside the size", (date, timestamp) => {
+    const html = `<pre><a href="?C=N;O=D">Name</a><hr><a href="a.txt">a.txt</a>   ${date}  1.2K  Text\n<hr></pre>`;
+    const [entry] = parse(html, "F1");
+
+    expect(entry?.lastModified).toBe(timestamp);
+    expect(entry?.type === "file" && entry.size?.raw).toBe("1.2K");
+    expect(entry?.description).toBe("Text");
+  });
+
+  it("extracts dates from every F2 fixture row", () => {
+    const html = readFileSync(createFixture("F2")("unicode-org.html"), "utf-8");
+    const entries = parse(html, "F2");
+
+    expect(entries.every((entry) => typeof entry.lastModified === "number")).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import type { Entry } from "../src";
+import type { TraverseDecision, TraverseEntry } from "../src/traverse";
+import { afterEach, assert, describe, expect, it, vi } from "vitest";
+import { traverse } from "../src/traverse";
+import { directory, fetched, file, stubListings } from "./__utils";
+
+// /docs/api/ and /src/ hold a file each, /empty/ holds nothing
+const LISTINGS: Record<string, Entry[]> = {
+  "/": [directory("docs"), directory("empty"), directory("src"), file("readme.md")],
+  "/docs/": [directory("api"), file("index.md")],
+  "/docs/api/": [file("parse.md")],
+  "/empty/": [],
+  "/src/": [file("index.ts")],
+};
+
+function find(entries: TraverseEntry[], path: string): TraverseEntry | undefined {
+  for (const entry of entries) {
+    if (entry.path === path) {
+      return entry;
+    }
+
+    const found = entry.type === "directory" ? find(entry.children, path) : undefined;
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("maxDepth", () => {
+  it("only fetches the root listing with a maxDepth of 0", async () => {
+    const mockFetch = stubListings(LISTINGS);
+
+    const entries = await traverse("http://example.com/", { format: "F2", maxDepth: 0 });
+
+    expect(fetched(mockFetch)).toStrictEqual(["/"]);
+    expect(entries.map((entry) => entry.path)).toStrictEqual(["docs/", "empty/", "src/", "readme.md"]);
+    expect(entries[0]).toMatchObject({ expanded: false, listed: false, children: [] });
+  });
+
+  it("fetches the directories up to maxDepth", async () => {
+    const mockFetch = stubListings(LISTINGS);
+
+    const entries = await traverse("http://example.com/", { format: "F2", maxDepth: 1 });
+
+    expect(fetched(mockFetch)).toStrictEqual(["/", "/docs/", "/empty/", "/src/"]);
+    expect(find(entries, "docs/")).toMatchObject({ expanded: true, listed: true });
+    expect(find(entries, "docs/api/")).toMatchObject({ expanded: false, listed: false, children: [] });
+  });
+
+  it("tells pruned directories apart from empty ones", async () => {
+    stubListings(LISTINGS);
+
+    const entries = await traverse("http://example.com/", { format: "F2", maxDepth: 1 });
+
+    expect(find(entries, "empty/")).toMatchObject({ expanded: true, listed: true, children: [] });
+    expect(find(entries, "docs/api/")).toMatchObject({ expanded: false, children: [] });
+  });
+
+  it.each([-1, 1.5, Number.NaN])("rejects a maxDepth of %d", async (maxDepth) => {
+    const mockFetch = stubListings(LISTINGS);
+
+    await expect(traverse("http://example.com/", { maxDepth })).rejects.toThrow(RangeError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("onBeforeDirectory", () => {
+  it("is called with the directory and its depth before it is fetched", async () => {
+    const mockFetch = stubListings(LISTINGS);
+    const calls: [string, number, number][] = [];
+
+    await traverse("http://example.com/", {
+      format: "F2",
+      basePath: "/mirror",
+      onBeforeDirectory: (directory, depth) => {
+        calls.push([directory.path, depth, mockFetch.mock.calls.length]);
+      },
+    });
+
+    expect(calls).toStrictEqual([
+      ["/mirror/docs/", 0, 1],
+      ["/mirror/empty/", 0, 1],
+      ["/mirror/src/", 0, 1],
+      ["/mirror/docs/api/", 1, 4],
+    ]);
+  });
+
+  it.each<[TraverseDecision | undefined, string[]]>([
+    ["descend", ["/", "/docs/", "/empty/", "/src/", "/docs/api/"]],
+    [undefined, ["/", "/docs/", "/empty/", "/src/", "/docs/api/"]],
+    ["include", ["/", "/empty/", "/src/"]],
+    ["skip", ["/", "/empty/", "/src/"]],
+  ])("fetches the directories for %s", async (decision, expected) => {
+    const mockFetch = stubListings(LISTINGS);
+
+    await traverse("http://example.com/", {
+      format: "F2",
+      onBeforeDirectory: (directory) => directory.name === "docs" ? decision : "descend",
+    });
+
+    expect(fetched(mockFetch)).toStrictEqual(expected);
+  });
+
+  it("leaves skipped directories out of the result", async () => {
+    stubListings(LISTINGS);
+    const onDirectory = vi.fn();
+
+    const entries = await traverse("http://example.com/", {
+      format: "F2",
+      onBeforeDirectory: (directory) => directory.name === "docs" ? "skip" : "descend",
+      onDirectory,
+    });
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual(["empty/", "src/", "readme.md"]);
+    expect(onDirectory.mock.calls.map(([directory]) => directory.path)).toStrictEqual(["empty/", "src/"]);
+  });
+
+  it("includes directories without their children", async () => {
+    stubListings(LISTINGS);
+    const onDirectory = vi.fn();
+
+    const entries = await traverse("http://example.com/", {
+      format: "F2",
+      onBeforeDirectory: async (directory) => directory.name === "docs" ? "include" : "descend",
+      onDirectory,
+    });
+
+    const docs = entries[0];
+    assert(docs?.type === "directory");
+
+    expect(docs).toMatchObject({ name: "docs", path: "docs/", expanded: false, listed: false, children: [] });
+    expect(onDirectory).toHaveBeenCalledWith(docs);
+  });
+
+  it("can't descend deeper than maxDepth", async () => {
+    const mockFetch = stubListings(LISTINGS);
+
+    await traverse("http://example.com/", { format: "F2", maxDepth: 0, onBeforeDirectory: () => "descend" });
+
+    expect(fetched(mockFetch)).toStrictEqual(["/"]);
+  });
+});
@@ -0,0 +1,68 @@
+import type { Entry } from "../src";
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parse, parseSize } from "../src";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { createFixture } from "./__utils";
+
+describe.each([
+  ["F1" as const],
+  ["F2" as const],
+])("description column (%s)", (format) => {
+  const fixture = createFixture(format);
+
+  it("extracts descriptions from the fixture listing", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, format);
+
+    const descriptions = Object.fromEntries(entries.map((entry) => [entry.name, entry.description]));
+
+    expect(descriptions["simple.txt"]).toBe("Text Document");
+    expect(descriptions["file-with-dashes.html"]).toBe("HTML Document");
+    expect(descriptions.level2).toBeUndefined();
+  });
+
+  it("omits the description when the column is empty", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, format);
+
+    const level2 = entries.find((entry) => entry.name === "level2");
+
+    expect(level2).toBeDefined();
+    expect(level2).not.toHaveProperty("description");
+  });
+
+  it("strips inline html and decodes entities", () => {
+    const entries: Entry[] = [
+      {
+        type: "file",
+        name: "release.tar.gz",
+        path: "release.tar.gz",
+        href: "release.tar.gz",
+        lastModified: Date.UTC(2024, 4, 1, 13, 37),
+        size: parseSize("34M"),
+        description: "DESCRIPTION",
+        kind: "archive",
+      },
+    ];
+
+    // the generator escapes descriptions, so the markup is put in afterwards
+    const html = generateAutoIndexHtml(entries, format).replace("DESCRIPTION", "<em>Release</em> notes &amp; sources &#8211; <b>v1</b>");
+    const [entry] = parse(html, format);
+
+    expect(entry?.description).toBe("Release notes & sources – v1");
+    expect(entry?.type === "file" && entry.size?.raw).toBe("34M");
+  });
+
+  it("keeps markup characters in generated descriptions", () => {
+    const description = "Tools & <scripts> for </td> rows";
+    const entries: Entry[] = [
+      { type: "file", name: "tools.zip", path: "tools.zip", href: "tools.zip", lastModified: undefined, size: undefined, description, kind: "archive" },
+      { type: "file", name: "notes.txt", path: "notes.txt", href: "notes.txt", lastModified: undefined, size: undefined, kind: "text" },
+    ];
+
+    const parsed = parse(generateAutoIndexHtml(entries, format), format);
+
+    expect(parsed.map((entry) => [entry.name, entry.description])).toStrictEqual([["tools.zip", description], ["notes.txt", undefined]]);
+  });
+});
@@ -0,0 +1,160 @@
+import { readFileSync } from "node:fs";
+import { assert, describe, expect, it, vi } from "vitest";
+import { detectFormat, inferFormat, parse } from "../src";
+import { traverse } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("detect");
+
+describe("detectFormat", () => {
+  it.each([
+    ["F0", "unicode-org.html", "apache", "F0"],
+    ["F1", "directory.html", "apache", "F1"],
+    ["F2", "directory.html", "apache", "F2"],
+    ["nginx", "directory.html", "nginx", "nginx"],
+    ["nginx", "directory.json", "nginx", "nginx-json"],
+    ["nginx", "directory.xml", "nginx", "nginx-xml"],
+    ["lighttpd", "directory.html", "lighttpd", "lighttpd"],
+    ["caddy", "directory.html", "caddy", "caddy"],
+    ["caddy", "directory.json", "caddy", "caddy-json"],
+    ["python", "directory.html", "python", "python"],
+    ["iis", "directory.html", "iis", "iis"],
+    ["s3", "list-bucket.xml", "s3", "s3"],
+    ["detect", "empty.html", "apache", "F1"],
+  ])("detects %s/%s", (name, file, family, format) => {
+    const content = readFileSync(createFixture(name)(file), "utf-8");
+    const detection = detectFormat(content);
+
+    expect(detection.family).toBe(family);
+    expect(detection.format).toBe(format);
+    expect(detection.confidence).toBeGreaterThanOrEqual(0.5);
+    expect(detection.evidence.length).toBeGreaterThan(0);
+  });
+
+  it("reports the evidence of apache listings", () => {
+    const content = readFileSync(fixture("empty.html"), "utf-8");
+
+    expect(detectFormat(content)).toStrictEqual({
+      family: "apache",
+      format: "F1",
+      confidence: 0.9,
+      evidence: [
+        "listing in a <pre>",
+        "\"Index of\" title",
+        "sort links",
+        "\"Parent Directory\" link",
+        "apache server signature",
+      ],
+    });
+  });
+
+  it("is more confident about explicit format parameters", () => {
+    const withParameter = readFileSync(createFixture("F1")("directory.html"), "utf-8");
+    const withoutParameter = readFileSync(fixture("empty.html"), "utf-8");
+
+    expect(detectFormat(withParameter).confidence).toBeGreaterThan(detectFormat(withoutParameter).confidence);
+    expect(detectFormat(withParameter).evidence).toContain("sort links with F=1");
+  });
+
+  it.each([
+    ["not-found.html"],
+    ["index.html"],
+  ])("reports %s as unknown", (file) => {
+    const content = readFileSync(fixture(file), "utf-8");
+
+    expect(detectFormat(content)).toStrictEqual({
+      family: "unknown",
+      format: undefined,
+      confidence: 0,
+      evidence: [],
+    });
+  });
+
+  it("reports empty content as unknown", () => {
+    expect(detectFormat("").family).toBe("unknown");
+  });
+
+  it("keeps the structural fallback of inferFormat", () => {
+    expect(inferFormat(readFileSync(fixture("not-found.html"), "utf-8"))).toBe("F0");
+    expect(inferFormat(readFileSync(fixture("index.html"), "utf-8"))).toBe("F1");
+  });
+});
+
+describe("requireListing", () => {
+  it("refuses pages that aren't listings", () => {
+    const html = readFileSync(fixture("index.html"), "utf-8");
+
+    expect(() => parse(html, { requireListing: true })).toThrow("content is not a recognized directory listing");
+    expect(() => parse(html)).not.toThrow();
+  });
+
+  it("parses empty listings", () => {
+    const html = readFileSync(fixture("empty.html"), "utf-8");
+
+    expect(parse(html, { requireListing: true })).toStrictEqual([]);
+  });
+
+  it("trusts an explicit format", () => {
+    const html = readFileSync(fixture("index.html"), "utf-8");
+
+    expect(() => parse(html, { format: "F0", requireListing: true })).not.toThrow();
+  });
+});
+
+describe("traverse", () => {
+  it("tells directories without a listing apart from empty ones", async () => {
+    const rootHtml = `<html><head><title>Index of /</title></head><body><h1>Index of /</h1><ul>
+<li><a href="/"> Parent Directory</a></li>
+<li><a href="empty/"> empty/</a></li>
+<li><a href="site/"> site/</a></li>
+</ul></body></html>`;
+
+    const mockFetch = vi.fn(async (url: string) => ({
+      ok: true,
+      text: () => Promise.resolve(readFileSync(fixture(url.endsWith("/empty/") ? "empty.html" : "index.html"), "utf-8")),
+    }));
+
+    mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(rootHtml) });
+
+    vi.stubGlobal("fetch", mockFetch);
+
+    const [empty, site] = await traverse("http://example.com/", { requireListing: true });
+
+    assert(empty?.type === "directory");
+    assert(site?.type === "directory");
+
+    expect(empty).toMatchObject({ name: "empty", children: [], listed: true });
+    expect(site).toMatchObject({ name: "site", children: [], listed: false });
+
+    vi.unstubAllGlobals();
+  });
+
+  it("parses pages without listing markers by their structure by default", async () => {
+    const html = readFileSync(fixture("suppress-column-sorting.html"), "utf-8");
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => new Response(url.endsWith("/releases/") ? "" : html)));
+
+    expect(detectFormat(html).format).toBeUndefined();
+
+    const entries = await traverse("http://example.com/");
+    expect(entries.map((entry) => [entry.path, entry.type === "directory" && entry.listed])).toStrictEqual([
+      ["releases/", true],
+      ["README.txt", false],
+    ]);
+
+    const required = await traverse("http://example.com/", { requireListing: true });
+    expect(required).toStrictEqual([]);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("returns no entries for a root without a listing", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve(readFileSync(fixture("not-found.html"), "utf-8")),
+    }));
+
+    expect(await traverse("http://example.com/")).toStrictEqual([]);
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,159 @@
+import type { AutoIndexFormat, ParseWarning } from "../src";
+import { readFileSync } from "node:fs";
+import { describe, expect, it, vi } from "vitest";
+import { createStreamParser, parse, parseWithDiagnostics } from "../src";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("diagnostics");
+
+describe("parseWithDiagnostics", () => {
+  it.each([
+    ["F0", "directory.html"],
+    ["F1", "directory.html"],
+    ["F1", "unicode-org.html"],
+    ["F2", "directory.html"],
+    ["F2", "special-files.html"],
+    ["nginx", "directory.html"],
+    ["nginx", "directory.json"],
+    ["nginx", "directory.xml"],
+    ["lighttpd", "directory.html"],
+    ["caddy", "directory.html"],
+    ["caddy", "directory.json"],
+    ["python", "directory.html"],
+    ["iis", "directory.html"],
+    ["iis", "long-date.html"],
+    ["s3", "list-bucket.xml"],
+    ["page", "header-readme.html"],
+    ["detect", "empty.html"],
+  ])("reports no warnings for %s/%s", (name, file) => {
+    const content = readFileSync(createFixture(name)(file), "utf-8");
+    const result = parseWithDiagnostics(content);
+
+    expect(result.warnings).toStrictEqual([]);
+    expect(result.entries).toStrictEqual(parse(content));
+  });
+
+  it.each([
+    ["f0-nested-markup.html", "F0"],
+    ["f1-icons-are-links.html", "F1"],
+    ["f2-omitted-end-tags.html", "F2"],
+    ["nginx-attributes.html", "nginx"],
+    ["lighttpd-quotes.html", "lighttpd"],
+    ["python-unquoted.html", "python"],
+    ["iis-lowercase.html", "iis"],
+  ] as [string, AutoIndexFormat][])("reports no warnings for awkward/%s parsed as %s", (file, format) => {
+    const content = readFileSync(createFixture("awkward")(file), "utf-8");
+
+    expect(parseWithDiagnostics(content, { format }).warnings).toStrictEqual([]);
+  });
+
+  it("reports the format and its detection", () => {
+    const content = readFileSync(fixture("f2-broken.html"), "utf-8");
+    const result = parseWithDiagnostics(content);
+
+    expect(result.format).toBe("F2");
+    expect(result.detection).toMatchObject({ family: "apache", format: "F2" });
+    expect(parseWithDiagnostics(content, { format: "F2" }).detection).toBeUndefined();
+  });
+
+  it("reports skipped rows, invalid dates and invalid sizes of tables", () => {
+    const content = readFileSync(fixture("f2-broken.html"), "utf-8");
+    const result = parseWithDiagnostics(content);
+
+    expect(result.entries.map((entry) => entry.name)).toStrictEqual(["docs", "release.tar.gz", "notes.txt"]);
+    expect(result.entries[1]?.lastModified).toBeUndefined();
+    expect(result.entries[2]).toMatchObject({ size: undefined });
+
+    expect(result.warnings).toStrictEqual([
+      { code: "invalid-date", message: "invalid last modified date \"2024-13-45 11:30\"", raw: "2024-13-45 11:30" },
+      { code: "invalid-size", message: "invalid size \"12 MB\"", raw: "12 MB" },
+      {
+        code: "skipped-row",
+        message: "row has no link",
+        raw: `<tr><td valign="top"><img src="/icons/unknown.gif" alt="[   ]"></td><td>removed.bin</td><td align="right">2024-03-04 08:00  </td><td align="right">1.0K</td><td>&nbsp;</td></tr>`,
+      },
+      { code: "skipped-row", message: "row has 1 cells instead of at least 3", raw: `<tr><td><a href="broken.txt">broken.txt</a></td></tr>` },
+    ]);
+  });
+
+  it("reports skipped rows, invalid dates and invalid sizes of preformatted listings", () => {
+    const content = readFileSync(fixture("f1-broken.html"), "utf-8");
+    const result = parseWithDiagnostics(content);
+
+    expect(result.entries.map((entry) => entry.name)).toStrictEqual(["docs", "release.tar.gz", "notes.txt"]);
+    expect(result.warnings.map(({ code, raw }) => [code, raw])).toStrictEqual([
+      ["invalid-date", "31-Foo-2024 11:30  2.5M"],
+      ["invalid-size", "1.2.3K"],
+      ["skipped-row", `<img src="/icons/unknown.gif" alt="[   ]"> <a name="removed">removed.bin</a>             2024-03-04 08:00  1.0K  `],
+    ]);
+  });
+
+  it("reports json items that were skipped", () => {
+    const json = JSON.stringify([
+      { name: "a.txt", type: "file", mtime: "Wed, 01 May 2024 13:37:42 GMT", size: 1 },
+      { type: "file", size: 2 },
+      { name: "b.txt", type: "file", mtime: "yesterday", size: "big" },
+    ]);
+
+    const result = parseWithDiagnostics(json);
+
+    expect(result.format).toBe("nginx-json");
+    expect(result.entries.map((entry) => entry.name)).toStrictEqual(["a.txt", "b.txt"]);
+    expect(result.warnings).toStrictEqual([
+      { code: "skipped-row", message: "item has no name", raw: "{\"type\":\"file\",\"size\":2}" },
+      { code: "invalid-date", message: "invalid last modified date \"yesterday\"", raw: "yesterday" },
+      { code: "invalid-size", message: "invalid size \"big\"", raw: "big" },
+    ]);
+  });
+
+  it("reports json listings that aren't valid json", () => {
+    expect(parseWithDiagnostics("[{\"name\": \"a.txt\"", { format: "nginx-json" }).warnings).toStrictEqual([
+      { code: "malformed-content", message: "content is not valid json" },
+    ]);
+  });
+
+  it("flags pages with links but no entries", () => {
+    const content = readFileSync(createFixture("awkward")("f2-omitted-end-tags.html"), "utf-8");
+    const result = parseWithDiagnostics(content, { format: "F0" });
+
+    expect(result.entries).toStrictEqual([]);
+    expect(result.warnings).toContainEqual({ code: "no-entries", message: "found 5 links, but no entries" });
+  });
+
+  it("flags pages whose format wasn't recognized", () => {
+    const content = readFileSync(createFixture("detect")("index.html"), "utf-8");
+    const result = parseWithDiagnostics(content);
+
+    expect(result.detection?.format).toBeUndefined();
+    expect(result.warnings[0]).toMatchObject({ code: "unrecognized-format" });
+  });
+
+  it("flags empty content", () => {
+    expect(parseWithDiagnostics("  \n").warnings).toStrictEqual([{ code: "empty-content", message: "content is empty" }]);
+  });
+});
+
+describe("onWarning", () => {
+  it("is called by parse for every warning", () => {
+    const content = readFileSync(fixture("f2-broken.html"), "utf-8");
+    const onWarning = vi.fn<(warning: ParseWarning) => void>();
+
+    parse(content, { onWarning });
+
+    expect(onWarning.mock.calls.map(([warning]) => warning)).toStrictEqual(parseWithDiagnostics(content).warnings);
+  });
+
+  it("is called by stream parsers for the rows of every chunk", () => {
+    const content = readFileSync(fixture("f1-broken.html"), "utf-8");
+    const onWarning = vi.fn<(warning: ParseWarning) => void>();
+    const parser = createStreamParser({ onWarning });
+
+    for (let i = 0; i < content.length; i += 50) {
+      parser.write(content.slice(i, i + 50));
+    }
+
+    parser.end();
+
+    expect(onWarning.mock.calls.map(([warning]) => warning)).toStrictEqual(parseWithDiagnostics(content).warnings);
+  });
+});
@@ -0,0 +1,203 @@
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AutoIndexError, createStreamParser, FetchError, FormatDetectionError, HttpError, parse, ParseError } from "../src";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { traverse, traverseBucket } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const NOT_A_LISTING = readFileSync(createFixture("detect")("index.html"), "utf-8");
+
+const ROOT = generateAutoIndexHtml([
+  { type: "directory", name: "sub", path: "sub/", href: "sub/", lastModified: undefined, kind: "directory" },
+  { type: "file", name: "a.txt", path: "a.txt", href: "a.txt", lastModified: undefined, size: undefined, kind: "text" },
+], "F2");
+
+// links to entries, but none of them in rows the F2 parser reads
+const MISPARSED = "<ul><li><a href=\"/a\">a</a></li><li><a href=\"/b\">b</a></li><li><a href=\"/c\">c</a></li></ul>";
+
+const SUB = generateAutoIndexHtml([
+  { type: "file", name: "b.txt", path: "b.txt", href: "b.txt", lastModified: undefined, size: undefined, kind: "text" },
+], "F2");
+
+function stubFetch(sub: () => Promise<Response>): void {
+  vi.stubGlobal("fetch", vi.fn(async (url: string) => url.endsWith("/sub/") ? sub() : new Response(ROOT)));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("errors", () => {
+  it("extend AutoIndexError", () => {
+    const error = new HttpError("http://example.com/", 404, "Not Found");
+
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toBeInstanceOf(AutoIndexError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("HttpError");
+    expect(error.message).toBe("failed to fetch directory listing from http://example.com/: 404 Not Found");
+  });
+});
+
+describe("parse", () => {
+  it("returns an empty array for content it can't parse", () => {
+    expect(parse("")).toStrictEqual([]);
+    expect(parse("{", "nginx-json")).toStrictEqual([]);
+  });
+
+  it.each([
+    ["", "empty-content", "content is empty"],
+    ["{", "malformed-content", "content is not valid json"],
+    [MISPARSED, "no-entries", "found 3 links, but no entries"],
+  ])("throws for %j in strict mode", (content, code, message) => {
+    const format = content === "{" ? "nginx-json" : "F2";
+    const error = (() => {
+      try {
+        parse(content, { format, strict: true });
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({ code, message });
+  });
+
+  it("throws a FormatDetectionError for pages that aren't listings", () => {
+    expect(() => parse(NOT_A_LISTING, { strict: true })).toThrow(FormatDetectionError);
+    expect(() => parse(NOT_A_LISTING, { requireListing: true })).toThrow(FormatDetectionError);
+
+    try {
+      parse(NOT_A_LISTING, { strict: true });
+    } catch (error) {
+      expect(error).toMatchObject({ code: "unrecognized-format", detection: { family: "unknown", format: undefined } });
+    }
+  });
+
+  it("throws from stream parsers in strict mode", () => {
+    expect(() => createStreamParser({ strict: true }).end()).toThrow(new ParseError("content is empty", "empty-content"));
+
+    const parser = createStreamParser({ strict: true });
+    parser.write(NOT_A_LISTING);
+
+    expect(() => parser.end()).toThrow(FormatDetectionError);
+  });
+
+  it.each([
+    ["{", "nginx-json", "malformed-content", "content is not valid json"],
+    ["{\"name\":\"a\"}", "nginx-json", "malformed-content", "content is not a json array"],
+    ["[{\"name\":}]", "nginx-json", "malformed-content", "content is not valid json"],
+    [MISPARSED, "F2", "no-entries", "found 3 links, but no entries"],
+  ] as const)("throws from stream parsers for %j once the page has ended", (content, format, code, message) => {
+    const parser = createStreamParser({ format, strict: true });
+    for (const char of content) {
+      parser.write(char);
+    }
+
+    expect(() => parser.end()).toThrow(new ParseError(message, code));
+  });
+
+  it("warns from stream parsers about the page as a whole", () => {
+    const onWarning = vi.fn();
+    const parser = createStreamParser({ format: "F2", onWarning });
+    parser.write(MISPARSED);
+
+    expect(parser.end()).toStrictEqual([]);
+    expect(onWarning).toHaveBeenCalledWith({ code: "no-entries", message: "found 3 links, but no entries" });
+  });
+
+  it("doesn't throw for stream parsers whose chunks have no rows", () => {
+    const parser = createStreamParser({ format: "F2", strict: true });
+    const entries = [...ROOT].flatMap((char) => parser.write(char));
+
+    expect([...entries, ...parser.end()]).toStrictEqual(parse(ROOT));
+  });
+});
+
+describe("traverse", () => {
+  it("treats directories that fail as empty", async () => {
+    stubFetch(async () => new Response("", { status: 500, statusText: "Internal Server Error" }));
+
+    const entries = await traverse("http://example.com/");
+
+    expect(entries[0]).toMatchObject({ path: "sub/", children: [] });
+  });
+
+  it("rejects with a HttpError in strict mode", async () => {
+    stubFetch(async () => new Response("", { status: 500, statusText: "Internal Server Error" }));
+
+    const error = await traverse("http://example.com/", { strict: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ url: "http://example.com/sub/", status: 500, statusText: "Internal Server Error" });
+  });
+
+  it("rejects with a FetchError when the request fails in strict mode", async () => {
+    const cause = new TypeError("fetch failed");
+    stubFetch(async () => {
+      throw cause;
+    });
+
+    const error = await traverse("http://example.com/", { strict: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toMatchObject({ url: "http://example.com/sub/", cause });
+  });
+
+  it("rejects with a FormatDetectionError for directories that aren't listings in strict mode", async () => {
+    stubFetch(async () => new Response(NOT_A_LISTING));
+
+    const error = await traverse("http://example.com/", { strict: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(FormatDetectionError);
+    expect(error).toMatchObject({ url: "http://example.com/sub/" });
+  });
+
+  it("rejects with a ParseError for directories it misparsed in strict mode", async () => {
+    stubFetch(async () => new Response(MISPARSED));
+
+    await expect(traverse("http://example.com/", { format: "F2" })).resolves.toMatchObject([{ path: "sub/", children: [] }, { path: "a.txt" }]);
+
+    const error = await traverse("http://example.com/", { format: "F2", strict: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({ url: "http://example.com/sub/", code: "no-entries" });
+  });
+
+  it("rejects with errors thrown by callbacks in strict mode", async () => {
+    stubFetch(async () => new Response(SUB));
+    const onFile = vi.fn(() => {
+      throw new Error("disk full");
+    });
+
+    await expect(traverse("http://example.com/", { onFile })).resolves.toStrictEqual([]);
+    await expect(traverse("http://example.com/", { onFile, strict: true })).rejects.toThrow("disk full");
+  });
+
+  it("rejects when it's aborted", async () => {
+    const controller = new AbortController();
+    stubFetch(async () => {
+      controller.abort();
+      return new Response(SUB);
+    });
+
+    await expect(traverse("http://example.com/", { abortSignal: controller.signal })).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("rejects when it's aborted before it started", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(traverse("http://example.com/", { abortSignal: AbortSignal.abort() })).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("traverseBucket", () => {
+  it("rejects with a HttpError in strict mode", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 403, statusText: "Forbidden" })));
+
+    await expect(traverseBucket("http://localhost:9000/bucket")).resolves.toStrictEqual([]);
+    await expect(traverseBucket("http://localhost:9000/bucket", { strict: true })).rejects.toMatchObject({ name: "HttpError", status: 403 });
+  });
+});
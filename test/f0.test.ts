@@ -86,7 +86,10 @@ describe("F0", () => {
         type: "file",
         name: "ReadMe.txt",
         path: "ReadMe.txt",
+        href: "ReadMe.txt",
         lastModified: undefined,
+        size: undefined,
+        kind: "text",
       },
     ]);
   });
@@ -101,12 +104,12 @@ describe("F0", () => {
     const paths = entries.map((entry) => entry.path);
 
     expect(paths).toStrictEqual([
-      "file%20with%20spaces.txt",
+      "file with spaces.txt",
       "file-with-dashes.html",
       "file_with_underscores.json",
       "level2/",
       "simple.txt",
-      "%d1%84%d0%b0%d0%b9%d0%bb.txt",
+      "файл.txt",
     ]);
   });
 
@@ -122,11 +125,11 @@ describe("F0", () => {
     expect(paths).toStrictEqual([
       "ReadMe.txt",
       "UPPERCASE-FILE.XML",
-      "file%20with%20spaces.html",
-      "file%22with%22double%22quotes.rb",
-      "file%23with%23hash.py",
-      "file%2520with%2520url%2520encoding.html",
-      "file&amp;with&amp;ampersands.php",
+      "file with spaces.html",
+      "file\"with\"double\"quotes.rb",
+      "file#with#hash.py",
+      "file%20with%20url%20encoding.html",
+      "file&with&ampersands.php",
       "file'with'quotes.sh",
       "file(with)parentheses.txt",
       "file+with+plus+signs.txt",
@@ -134,13 +137,18 @@ describe("F0", () => {
       "file-with-dashes.css",
       "file.with.dots.json",
       "file@with@symbols.md",
-      "file%5bwith%5dbrackets.log",
+      "file[with]brackets.log",
       "file_with_underscores.js",
       "hello/",
       "level1/",
       "many-files/",
       "normal-file.txt",
     ]);
+
+    // paths are decoded, while hrefs are kept percent-encoded for building request urls
+    expect(entries.find((entry) => entry.path === "file%20with%20url%20encoding.html")?.href).toBe("file%2520with%2520url%2520encoding.html");
+    expect(entries.find((entry) => entry.path === "file&with&ampersands.php")?.href).toBe("file&with&ampersands.php");
+    expect(entries.find((entry) => entry.path === "file with spaces.html")?.href).toBe("file%20with%20spaces.html");
   });
 
   it("traverse directory structure", async () => {
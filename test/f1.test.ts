@@ -86,7 +86,21 @@ describe("F1", () => {
         type: "file",
         name: "ReadMe.txt",
         path: "ReadMe.txt",
-        lastModified: expect.any(Number),
+        href: "ReadMe.txt",
+        lastModified: Date.UTC(2023, 1, 9, 15, 26),
+        lastModifiedRaw: "2023-02-09 15:26",
+        lastModifiedPrecision: "minute",
+        size: {
+          raw: "346",
+          bytes: 346,
+          min: 346,
+          max: 346,
+        },
+        kind: "text",
+        icon: {
+          src: "/icons/text.gif",
+          alt: "[TXT]",
+        },
       },
     ]);
   });
@@ -101,12 +115,12 @@ describe("F1", () => {
     const paths = entries.map((entry) => entry.path);
 
     expect(paths).toStrictEqual([
-      "file%20with%20spaces.txt",
+      "file with spaces.txt",
       "file-with-dashes.html",
       "file_with_underscores.json",
       "level2/",
       "simple.txt",
-      "%d1%84%d0%b0%d0%b9%d0%bb.txt",
+      "файл.txt",
     ]);
   });
 
@@ -122,11 +136,11 @@ describe("F1", () => {
     expect(paths).toStrictEqual([
       "ReadMe.txt",
       "UPPERCASE-FILE.XML",
-      "file%20with%20spaces.html",
-      "file%22with%22double%22quotes.rb",
-      "file%23with%23hash.py",
-      "file%2520with%2520url%2520encoding.html",
-      "file&amp;with&amp;ampersands.php",
+      "file with spaces.html",
+      "file\"with\"double\"quotes.rb",
+      "file#with#hash.py",
+      "file%20with%20url%20encoding.html",
+      "file&with&ampersands.php",
       "file'with'quotes.sh",
       "file(with)parentheses.txt",
       "file+with+plus+signs.txt",
@@ -134,13 +148,18 @@ describe("F1", () => {
       "file-with-dashes.css",
       "file.with.dots.json",
       "file@with@symbols.md",
-      "file%5bwith%5dbrackets.log",
+      "file[with]brackets.log",
       "file_with_underscores.js",
       "hello/",
       "level1/",
       "many-files/",
       "normal-file.txt",
     ]);
+
+    // paths are decoded, while hrefs are kept percent-encoded for building request urls
+    expect(entries.find((entry) => entry.path === "file%20with%20url%20encoding.html")?.href).toBe("file%2520with%2520url%2520encoding.html");
+    expect(entries.find((entry) => entry.path === "file&with&ampersands.php")?.href).toBe("file&with&ampersands.php");
+    expect(entries.find((entry) => entry.path === "file with spaces.html")?.href).toBe("file%20with%20spaces.html");
   });
 
   it("traverse directory structure", async () => {
@@ -0,0 +1,126 @@
+import type { Entry } from "../src";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPathMatcher, matchGlob } from "../src";
+import { traverse } from "../src/traverse";
+import { directory, fetched, file, paths, stubListings } from "./__utils";
+
+const LISTINGS: Record<string, Entry[]> = {
+  "/": [directory("emoji"), directory("ucd"), file("ReadMe.txt")],
+  "/emoji/": [file("emoji-test.txt")],
+  "/ucd/": [directory("Unihan"), directory("auxiliary"), file("UnicodeData.txt"), file("ucd.zip")],
+  "/ucd/Unihan/": [file("Unihan.zip"), file("ReadMe.txt")],
+  "/ucd/auxiliary/": [file("GraphemeBreakTest.txt"), file("GraphemeBreakTest.html")],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("matchGlob", () => {
+  it.each([
+    ["*.txt", "ReadMe.txt", true],
+    ["*.txt", "ucd/UnicodeData.txt", false],
+    ["**/*.txt", "ReadMe.txt", true],
+    ["**/*.txt", "ucd/auxiliary/GraphemeBreakTest.txt", true],
+    ["ucd/**/*.txt", "ucd/UnicodeData.txt", true],
+    ["ucd/**/*.txt", "emoji/emoji-test.txt", false],
+    ["ucd/*.txt", "ucd/auxiliary/GraphemeBreakTest.txt", false],
+    ["ucd/?nicodeData.txt", "ucd/UnicodeData.txt", true],
+    ["ucd/?nicodeData.txt", "ucd/nicodeData.txt", false],
+    ["ucd/*.{txt,zip}", "ucd/ucd.zip", true],
+    ["ucd/*.{txt,zip}", "ucd/ucd.html", false],
+    ["{emoji,ucd/{Unihan,auxiliary}}/", "ucd/auxiliary/", true],
+    ["{emoji,ucd/{Unihan,auxiliary}}/", "ucd/", false],
+    ["ucd/{a}.txt", "ucd/{a}.txt", true],
+    ["ucd", "ucd/Unihan/Unihan.zip", true],
+    ["ucd/Unihan/", "ucd/Unihan/", true],
+    ["ucd/Unihan/", "ucd/Unihan/Unihan.zip", true],
+    ["ucd/Unihan/", "ucd/Unihan", false],
+    ["/ucd/*.zip", "ucd/ucd.zip", true],
+    ["ucd/(a).txt", "ucd/(a).txt", true],
+    ["ucd/(a).txt", "ucd/a.txt", false],
+  ])("matches %s against %s", (pattern, path, expected) => {
+    expect(matchGlob(pattern, path)).toBe(expected);
+  });
+});
+
+describe("createPathMatcher", () => {
+  const matcher = createPathMatcher({ include: "ucd/**/*.txt", exclude: ["ucd/Unihan/**", "!ucd/Unihan/ReadMe.txt"] });
+
+  it.each([
+    ["ucd/UnicodeData.txt", true],
+    ["ucd/ucd.zip", false],
+    ["ucd/Unihan/Unihan.txt", false],
+    ["ucd/Unihan/ReadMe.txt", true],
+    ["ReadMe.txt", false],
+  ])("matches %s", (path, expected) => {
+    expect(matcher.matches(path)).toBe(expected);
+  });
+
+  it.each([
+    ["ucd/", true],
+    ["ucd/auxiliary/", true],
+    ["ucd/Unihan/", true],
+    ["emoji/", false],
+  ])("may contain matches in %s", (path, expected) => {
+    expect(matcher.mayContain(path)).toBe(expected);
+  });
+
+  it("doesn't look into excluded directories", () => {
+    const excluding = createPathMatcher({ exclude: "ucd/Unihan/" });
+
+    expect(excluding.mayContain("ucd/")).toBe(true);
+    expect(excluding.mayContain("ucd/Unihan/")).toBe(false);
+    expect(excluding.matches("ucd/Unihan/ReadMe.txt")).toBe(false);
+  });
+
+  it("treats negated includes as excludes", () => {
+    const negated = createPathMatcher({ include: ["ucd/**", "!**/*.zip", "!ucd/Unihan"] });
+
+    expect(negated.matches("ucd/UnicodeData.txt")).toBe(true);
+    expect(negated.matches("ucd/ucd.zip")).toBe(false);
+    expect(negated.mayContain("ucd/Unihan/")).toBe(false);
+  });
+
+  it("includes everything without globs", () => {
+    const empty = createPathMatcher({});
+
+    expect(empty.matches("anything/at/all.txt")).toBe(true);
+    expect(empty.mayContain("anything/")).toBe(true);
+  });
+});
+
+describe("traverse", () => {
+  it("only fetches directories that can contain matches", async () => {
+    const mockFetch = stubListings(LISTINGS);
+    const onFile = vi.fn();
+
+    const entries = await traverse("http://example.com/", {
+      format: "F2",
+      include: "ucd/**/*.txt",
+      exclude: "ucd/Unihan/",
+      onFile,
+    });
+
+    expect(fetched(mockFetch)).toStrictEqual(["/", "/ucd/", "/ucd/auxiliary/"]);
+    expect(paths(entries)).toStrictEqual(["ucd/", "ucd/auxiliary/", "ucd/auxiliary/GraphemeBreakTest.txt", "ucd/UnicodeData.txt"]);
+    expect(onFile.mock.calls.map(([entry]) => entry.path)).toStrictEqual(["ucd/UnicodeData.txt", "ucd/auxiliary/GraphemeBreakTest.txt"]);
+  });
+
+  it("matches paths without basePath", async () => {
+    stubListings(LISTINGS);
+
+    const entries = await traverse("http://example.com/", { format: "F2", basePath: "/mirror", include: "*.txt" });
+
+    expect(paths(entries)).toStrictEqual(["/mirror/ReadMe.txt"]);
+  });
+
+  it("doesn't call onBeforeDirectory for excluded directories", async () => {
+    stubListings(LISTINGS);
+    const onBeforeDirectory = vi.fn();
+
+    await traverse("http://example.com/", { format: "F2", exclude: ["emoji", "ucd/*/"], onBeforeDirectory });
+
+    expect(onBeforeDirectory.mock.calls.map(([entry]) => entry.path)).toStrictEqual(["ucd/"]);
+  });
+});
@@ -0,0 +1,158 @@
+import type { HtmlElement, HtmlToken } from "../src/html";
+import { describe, expect, it } from "vitest";
+import { parse } from "../src";
+import { childElements, findAll, parseHtml, sourceOf, splitLines, textContent, tokenize } from "../src/html";
+
+function names(element: HtmlElement): unknown[] {
+  return childElements(element).map((child) => child.children.some((node) => node.type === "element")
+    ? [child.name, names(child)]
+    : child.name);
+}
+
+function tokens(html: string): Omit<HtmlToken, "start" | "end">[] {
+  return tokenize(html).map(({ start: _start, end: _end, ...token }) => token);
+}
+
+describe("tokenize", () => {
+  it("parses quoted, unquoted and empty attributes", () => {
+    expect(tokens(`<A CLASS=dir Title='a "b"' href="x.txt" hidden>`)).toStrictEqual([
+      { type: "start", name: "a", attributes: { class: "dir", title: "a \"b\"", href: "x.txt", hidden: "" }, selfClosing: false },
+    ]);
+  });
+
+  it("decodes entities in text and attributes", () => {
+    expect(tokens(`<a href="a&amp;b.txt">a &amp; b&#46;txt</a>`)).toStrictEqual([
+      { type: "start", name: "a", attributes: { href: "a&b.txt" }, selfClosing: false },
+      { type: "text", value: "a & b.txt" },
+      { type: "end", name: "a" },
+    ]);
+  });
+
+  it("keeps the first of duplicated attributes", () => {
+    expect(tokenize(`<a href="first" href="second">`)[0]).toMatchObject({ attributes: { href: "first" } });
+  });
+
+  it("drops comments, doctypes and processing instructions", () => {
+    expect(tokens(`<?xml version="1.0"?><!DOCTYPE html><!-- <a href="x"> -->text`)).toStrictEqual([
+      { type: "text", value: "text" },
+    ]);
+  });
+
+  it("keeps the content of scripts as text", () => {
+    expect(tokens(`<script>if (a < b) document.write("<li>");</script>`)).toStrictEqual([
+      { type: "start", name: "script", attributes: {}, selfClosing: false },
+      { type: "text", value: "if (a < b) document.write(\"<li>\");" },
+      { type: "end", name: "script" },
+    ]);
+  });
+
+  it("keeps CDATA sections as text", () => {
+    expect(tokens(`<Key><![CDATA[a&amp;<b>]]></Key>`)).toStrictEqual([
+      { type: "start", name: "key", attributes: {}, selfClosing: false },
+      { type: "text", value: "a&amp;<b>" },
+      { type: "end", name: "key" },
+    ]);
+  });
+
+  it("keeps a lone \"<\" as text", () => {
+    expect(tokens("size < 1K <3")).toStrictEqual([{ type: "text", value: "size < 1K <3" }]);
+  });
+
+  it("ends unterminated tags at the end of the input", () => {
+    expect(tokens(`text<a href="x`)).toStrictEqual([
+      { type: "text", value: "text" },
+      { type: "start", name: "a", attributes: { href: "x" }, selfClosing: false },
+    ]);
+  });
+
+  it("recognizes self-closing tags", () => {
+    expect(tokens(`<br/><Prefix />`)).toStrictEqual([
+      { type: "start", name: "br", attributes: {}, selfClosing: true },
+      { type: "start", name: "prefix", attributes: {}, selfClosing: true },
+    ]);
+  });
+});
+
+describe("source offsets", () => {
+  it("records where every token starts and ends", () => {
+    expect(tokenize(`<a href="x">x</a>`).map(({ start, end }) => [start, end])).toStrictEqual([[0, 12], [12, 13], [13, 17]]);
+  });
+
+  it("records the source of elements, including implicitly closed ones", () => {
+    const html = "<ul><li>a<li><b>b</b></ul>";
+    const [first, second] = findAll(parseHtml(html), "li");
+
+    expect(sourceOf(html, first!)).toBe("<li>a");
+    expect(sourceOf(html, second!)).toBe("<li><b>b</b>");
+    expect(sourceOf(html, findAll(parseHtml(html), "ul")[0]!)).toBe(html);
+  });
+
+  it("records the source of lines", () => {
+    const html = `<pre><a href="a">a &amp; b</a>  1K\nnext</pre>`;
+    const [line] = splitLines(findAll(parseHtml(html), "pre")[0]!, []);
+
+    expect(sourceOf(html, line!)).toBe(`<a href="a">a &amp; b</a>  1K`);
+  });
+});
+
+describe("parseHtml", () => {
+  it("implies omitted end tags", () => {
+    const document = parseHtml("<table><tr><td>a<td>b<tr><td>c</table><ul><li>a<li>b</ul>");
+
+    expect(names(document)).toStrictEqual([
+      ["table", [["tr", ["td", "td"]], ["tr", ["td"]]]],
+      ["ul", ["li", "li"]],
+    ]);
+  });
+
+  it("doesn't close the parents of nested lists and tables", () => {
+    const document = parseHtml("<ul><li>a<ul><li>b<li>c</ul><li>d</ul>");
+
+    expect(names(document)).toStrictEqual([
+      ["ul", [["li", [["ul", ["li", "li"]]]], "li"]],
+    ]);
+  });
+
+  it("never gives void elements children", () => {
+    const document = parseHtml(`<pre><img src="a.gif"> <a href="a">a</a><hr><br></pre>`);
+
+    expect(names(document)).toStrictEqual([["pre", ["img", "a", "hr", "br"]]]);
+  });
+
+  it("ignores stray end tags", () => {
+    const document = parseHtml("</td><p>a</li></b>b</p>");
+
+    expect(names(document)).toStrictEqual(["p"]);
+    expect(textContent(document)).toBe("ab");
+  });
+
+  it("closes links that are left open", () => {
+    const document = parseHtml(`<a href="a">a<a href="b">b`);
+
+    expect(findAll(document, "a").map((link) => textContent(link))).toStrictEqual(["a", "b"]);
+  });
+});
+
+describe("splitLines", () => {
+  it("splits preformatted listings into lines of text, links and images", () => {
+    const [pre] = findAll(parseHtml(`<pre><img alt="[DIR]"> <a href="a/">a/</a> <b>1K</b><hr>second\nthird</pre>`), "pre");
+    const lines = splitLines(pre!, ["hr"]);
+
+    expect(lines.map((line) => line.map((node) => typeof node === "string" ? node : node.name))).toStrictEqual([
+      ["img", " ", "a", " ", "1K"],
+      ["second"],
+      ["third"],
+    ]);
+  });
+});
+
+describe("scaling", () => {
+  it("parses pathological markup in linear time", () => {
+    const rows = "<tr><td><a href=\"x\">x</a><td>".repeat(50_000);
+    const unclosed = "<a href=\"".repeat(50_000);
+
+    expect(parse(`<table>${rows}`, "F2")).toStrictEqual([]);
+    expect(parse(`<pre>${unclosed}`, "F1")).toStrictEqual([]);
+    expect(parse(`<ul>${"<li><b>".repeat(50_000)}`, "F0")).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { readFileSync } from "node:fs";
+import { assert, describe, expect, it, vi } from "vitest";
+import { inferFormat, parse } from "../src";
+import { traverse } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("iis");
+
+describe("iis", () => {
+  it.each([
+    ["directory.html"],
+    ["long-date.html"],
+  ])("infers the format of %s", (file) => {
+    const html = readFileSync(fixture(file), "utf-8");
+
+    expect(inferFormat(html)).toBe("iis");
+  });
+
+  it.each([
+    ["directory.html", "6/20/2025  2:15 AM"],
+    ["long-date.html", "Friday, June 20, 2025  2:15 AM"],
+  ])("parses %s", (file, level2Date) => {
+    const html = readFileSync(fixture(file), "utf-8");
+    const entries = parse(html);
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual([
+      "level2/",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "release.tar.gz",
+      "simple.txt",
+      "файл.txt",
+    ]);
+
+    const [level2, , , release, simple] = entries;
+
+    expect(level2).toStrictEqual({
+      type: "directory",
+      name: "level2",
+      path: "level2/",
+      href: "/level1/level2/",
+      lastModified: Date.UTC(2025, 5, 20, 2, 15),
+      lastModifiedRaw: level2Date,
+      lastModifiedPrecision: "minute",
+      kind: "directory",
+    });
+
+    expect(release).toMatchObject({
+      type: "file",
+      size: { raw: "35651584", bytes: 35651584 },
+      kind: "archive",
+    });
+
+    expect(simple?.lastModified).toBe(Date.UTC(2025, 5, 20, 14, 14));
+  });
+
+  it("builds child urls relative to the listing", async () => {
+    const rootHtml = readFileSync(fixture("directory.html"), "utf-8");
+    const emptyHtml = "<html><body></body></html>";
+
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(rootHtml) })
+      .mockResolvedValue({ ok: true, text: () => Promise.resolve(emptyHtml) });
+
+    vi.stubGlobal("fetch", mockFetch);
+
+    const result = await traverse("http://files.example.com/level1/");
+
+    const level2 = result.find((entry) => entry.name === "level2");
+
+    assert(level2?.type === "directory");
+    expect(mockFetch).toHaveBeenCalledWith("http://files.example.com/level1/level2/", expect.any(Object));
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,103 @@
+import type { Entry } from "../src";
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { inferEntryKind, parse } from "../src";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { createFixture } from "./__utils";
+
+describe("inferEntryKind", () => {
+  it.each([
+    ["[TXT]", "/icons/text.gif", "text"],
+    ["[IMG]", "/icons/image2.gif", "image"],
+    ["[SND]", "/icons/sound2.gif", "audio"],
+    ["[VID]", "/icons/movie.gif", "video"],
+    ["[CMP]", "/icons/compressed.gif", "archive"],
+  ] as const)("classifies alt text %s", (alt, src, kind) => {
+    expect(inferEntryKind("file", false, { alt, src })).toBe(kind);
+  });
+
+  it.each([
+    ["/icons/tar.gif", "archive"],
+    ["/icons/layout.png", "document"],
+    ["/icons/binary.gif", "binary"],
+    ["/icons/script.gif", "text"],
+    ["/icons/small/sound1.gif", "audio"],
+  ] as const)("falls back to the icon file name %s for blank alt text", (src, kind) => {
+    expect(inferEntryKind("file", false, { alt: "[   ]", src })).toBe(kind);
+  });
+
+  it.each([
+    ["notes.TXT", "text"],
+    ["photo.jpeg", "image"],
+    ["release.tar.gz", "archive"],
+    ["manual.pdf", "document"],
+    ["setup.exe", "binary"],
+    ["LICENSE", "unknown"],
+    ["data.unknownext", "unknown"],
+  ] as const)("guesses %s from its extension without an icon", (name, kind) => {
+    expect(inferEntryKind(name, false)).toBe(kind);
+  });
+
+  it("uses the extension when the icon is apache's unknown icon", () => {
+    expect(inferEntryKind("clip.mp4", false, { alt: "[   ]", src: "/icons/unknown.gif" })).toBe("video");
+  });
+
+  it("always classifies directories as directories", () => {
+    expect(inferEntryKind("archive.zip", true)).toBe("directory");
+  });
+});
+
+describe("icons in listings", () => {
+  it("exposes icon alt and src from F2 rows", () => {
+    const html = readFileSync(createFixture("F2")("unicode-org.html"), "utf-8");
+    const entries = parse(html, "F2");
+
+    const dir = entries.find((entry) => entry.type === "directory");
+
+    expect(dir?.kind).toBe("directory");
+    expect(dir?.icon).toStrictEqual({ src: "/icons/folder.gif", alt: "[DIR]" });
+  });
+
+  it("exposes icon alt and src from F1 rows", () => {
+    const html = readFileSync(createFixture("F1")("unicode-org.html"), "utf-8");
+    const entries = parse(html, "F1");
+
+    const file = entries.find((entry) => entry.name === "ReadMe.txt");
+
+    expect(file?.kind).toBe("text");
+    expect(file?.icon).toStrictEqual({ src: "/icons/text.gif", alt: "[TXT]" });
+  });
+
+  it("falls back to extensions for listings without icons", () => {
+    const html = readFileSync(createFixture("F0")("directory.html"), "utf-8");
+    const entries = parse(html, "F0");
+
+    const kinds = Object.fromEntries(entries.map((entry) => [entry.name, entry.kind]));
+
+    expect(kinds).toMatchObject({
+      "simple.txt": "text",
+      "file-with-dashes.html": "document",
+      "level2": "directory",
+    });
+    expect(entries.every((entry) => entry.icon === undefined)).toBe(true);
+  });
+
+  describe.each([
+    ["F1" as const],
+    ["F2" as const],
+  ])("%s", (format) => {
+    it("round-trips kinds through generateAutoIndexHtml", () => {
+      const entries: Entry[] = [
+        { type: "file", name: "photo.png", path: "photo.png", href: "photo.png", lastModified: undefined, size: undefined, kind: "image" },
+        { type: "file", name: "song.bin", path: "song.bin", href: "song.bin", lastModified: undefined, size: undefined, kind: "audio" },
+        { type: "file", name: "dist.tgz", path: "dist.tgz", href: "dist.tgz", lastModified: undefined, size: undefined, kind: "archive" },
+        { type: "file", name: "README", path: "README", href: "README", lastModified: undefined, size: undefined, kind: "unknown" },
+      ];
+
+      const parsed = parse(generateAutoIndexHtml(entries, format), format);
+
+      expect(parsed.map((entry) => entry.kind)).toStrictEqual(["image", "audio", "archive", "unknown"]);
+      expect(parsed[1]?.icon).toStrictEqual({ src: "/icons/sound2.gif", alt: "[SND]" });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import type { ParseWarning } from "../src";
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it } from "vitest";
+import { compileLayout, defineLayout, inferFormat, layoutPresets, parse, parseWithDiagnostics, registerFormat, unregisterFormat } from "../src";
+import { compileDatePattern } from "../src/date";
+import { parseHtml } from "../src/html";
+import { compileSelector, selectAll } from "../src/selector";
+import { parseUnitSize } from "../src/size";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("layouts");
+
+const LISTING = `<div class="intranet-listing">
+  <div class="entry dir"><a href="v1.0/">v1.0</a><span class="date" data-time="2024-03-01T10:00:00Z">01.03.2024 11:00</span></div>
+  <div class="entry file"><a href="v1.0.tar.gz">v1.0.tar.gz</a><span class="date" data-time="2024-03-02T14:30:00Z">02.03.2024 15:30</span><span class="size">1.5 MiB</span></div>
+  <div class="entry file"><span class="missing">no link</span></div>
+</div>`;
+
+function warningsOf(layout: Parameters<typeof compileLayout>[0], content: string): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+  compileLayout(layout)(content, { timezone: "UTC", warn: (warning) => warnings.push(warning) });
+  return warnings;
+}
+
+afterEach(() => {
+  for (const preset of Object.values(layoutPresets)) {
+    unregisterFormat(preset.name);
+  }
+
+  unregisterFormat("intranet");
+});
+
+describe("layout presets", () => {
+  it.each([
+    ["apaxy", "apaxy.html", 2621440, "2.5M"],
+    ["h5ai", "h5ai.html", 2621440, "2560 KB"],
+    ["fancyindex", "fancyindex.html", 2621440, "2.5 MiB"],
+  ] as const)("parses %s listings", (name, file, bytes, rawSize) => {
+    const content = readFileSync(fixture(file), "utf-8");
+    registerFormat(layoutPresets[name]);
+
+    expect(inferFormat(content)).toBe(name);
+
+    const { entries, warnings } = parseWithDiagnostics(content);
+    expect(warnings).toStrictEqual([]);
+    expect(entries.map(({ type, name, path }) => ({ type, name, path }))).toStrictEqual([
+      { type: "directory", name: "docs", path: "docs/" },
+      { type: "file", name: "release.tar.gz", path: "release.tar.gz" },
+      { type: "file", name: "notes v1.txt", path: "notes v1.txt" },
+    ]);
+    expect(entries.map((entry) => entry.lastModified)).toStrictEqual([1709287200000, 1709389800000, 1709453700000]);
+    expect(entries[1]).toMatchObject({ type: "file", size: { raw: rawSize } });
+    expect(entries[1]?.type === "file" && entries[1].size?.min).toBeLessThanOrEqual(bytes);
+    expect(entries[1]?.type === "file" && entries[1].size?.max).toBeGreaterThanOrEqual(bytes);
+  });
+
+  it("keeps the hrefs of absolute links", () => {
+    registerFormat(layoutPresets.h5ai);
+
+    const entries = parse(readFileSync(fixture("h5ai.html"), "utf-8"), "h5ai");
+
+    expect(entries.map((entry) => entry.href)).toStrictEqual(["/releases/docs/", "/releases/release.tar.gz", "/releases/notes%20v1.txt"]);
+  });
+
+  it("interprets dates in the timezone of the server", () => {
+    registerFormat(layoutPresets.fancyindex);
+
+    const entries = parse(readFileSync(fixture("fancyindex.html"), "utf-8"), { format: "fancyindex", timezone: "+02:00" });
+
+    expect(entries[0]).toMatchObject({ lastModified: 1709280000000, lastModifiedRaw: "2024-Mar-01 10:00" });
+  });
+
+  it("isn't registered by default", () => {
+    expect(inferFormat(readFileSync(fixture("fancyindex.html"), "utf-8"))).not.toBe("fancyindex");
+  });
+});
+
+describe("compileLayout", () => {
+  it("reads fields from text and attributes", () => {
+    registerFormat(defineLayout({
+      name: "intranet",
+      detect: (html) => html.includes("intranet-listing"),
+      layout: {
+        row: ".intranet-listing > .entry",
+        link: "a",
+        date: { selector: ".date", attribute: "data-time" },
+        size: ".size",
+        directory: ".entry.dir",
+      },
+    }));
+
+    expect(parse(LISTING)).toStrictEqual([
+      {
+        type: "directory",
+        name: "v1.0",
+        path: "v1.0/",
+        href: "v1.0/",
+        lastModified: 1709287200000,
+        lastModifiedRaw: "2024-03-01T10:00:00Z",
+        lastModifiedPrecision: "second",
+        kind: "directory",
+      },
+      expect.objectContaining({
+        type: "file",
+        name: "v1.0.tar.gz",
+        lastModified: 1709389800000,
+        size: { raw: "1.5 MiB", bytes: 1572864, min: 1520436, max: 1625292 },
+      }),
+    ]);
+  });
+
+  it("parses dates with the date pattern", () => {
+    const parser = compileLayout({ row: ".entry", link: "a", date: ".date", datePattern: "DD.MM.YYYY HH:mm" });
+
+    expect(parser(LISTING, { timezone: "Europe/Copenhagen", warn: () => {} }).map((entry) => entry.lastModified))
+      .toStrictEqual([1709287200000, 1709389800000]);
+  });
+
+  it("warns about rows, dates and sizes that don't parse", () => {
+    const content = LISTING.replace("01.03.2024 11:00", "yesterday").replace("1.5 MiB", "1.5 lots");
+
+    expect(warningsOf({ row: ".entry", link: "a", date: ".date", datePattern: "DD.MM.YYYY HH:mm", size: ".size" }, content)).toStrictEqual([
+      { code: "invalid-date", message: "invalid last modified date \"yesterday\"", raw: "yesterday" },
+      { code: "invalid-size", message: "invalid size \"1.5 lots\"", raw: "1.5 lots" },
+      { code: "skipped-row", message: "row has no link", raw: "<div class=\"entry file\"><span class=\"missing\">no link</span></div>" },
+    ]);
+  });
+
+  it("skips rows matched by the skip selector and parent links", () => {
+    const content = `<ul><li class="head"><a href="?sort=name">Name</a></li><li><a href="../">Up</a></li><li><a href="a.txt">a.txt</a></li></ul>`;
+
+    expect(compileLayout({ row: "li", link: "a", skip: ".head" })(content, { timezone: "UTC", warn: () => {} })
+      .map((entry) => entry.path)).toStrictEqual(["a.txt"]);
+  });
+
+  it("throws for invalid selectors and date patterns", () => {
+    expect(() => compileLayout({ row: "tr >", link: "a" })).toThrow("invalid selector \"tr >\"");
+    expect(() => compileLayout({ row: "tr", link: "a:first-child" })).toThrow("invalid selector \"a:first-child\"");
+    expect(() => compileLayout({ row: "tr", link: "a", datePattern: "DD.MM" })).toThrow();
+  });
+});
+
+describe("compileSelector", () => {
+  const document = parseHtml(`<table id="list"><tbody>
+    <tr class="odd row"><td class="link"><a href="a/" title="a">a</a></td></tr>
+    <tr class="even row"><td><span><a href="b.txt" data-kind="text file">b</a></span></td></tr>
+  </tbody></table>`);
+
+  it.each([
+    ["tr", 2],
+    ["#list tr", 2],
+    ["table > tr", 0],
+    ["tbody > tr.odd", 1],
+    ["tr.odd, tr.even", 2],
+    ["td.link a", 1],
+    ["td > a", 1],
+    ["a[title]", 1],
+    ["a[href=\"b.txt\"]", 1],
+    ["a[href$=\".txt\"]", 1],
+    ["a[href^=b]", 1],
+    ["a[data-kind~=file]", 1],
+    ["a[data-kind*='xt f']", 1],
+    ["*.row", 2],
+  ])("selects %s", (selector, count) => {
+    expect(selectAll(document, compileSelector(selector))).toHaveLength(count);
+  });
+
+  it.each(["", "tr,", "> tr", "tr:hover", "tr[", ".1"])("rejects %j", (selector) => {
+    expect(() => compileSelector(selector)).toThrow(`invalid selector "${selector}"`);
+  });
+});
+
+describe("compileDatePattern", () => {
+  it.each([
+    ["YYYY-MMM-DD HH:mm", "2024-Mar-01 10:00", 1709287200000],
+    ["DD.MM.YYYY HH:mm:ss", "01.03.2024 10:00:30", 1709287230000],
+    ["MMMM D, YYYY h:mm A", "March 1, 2024 10:00 PM", 1709330400000],
+    ["[at] HH:mm [on] D/M/YY", "at 10:00 on 1/3/24", 1709287200000],
+  ])("parses %s", (pattern, text, timestamp) => {
+    expect(compileDatePattern(pattern)(text)?.timestamp).toBe(timestamp);
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(compileDatePattern("YYYY-MM-DD HH:mm")("2024-02-30 10:00")).toBeUndefined();
+  });
+});
+
+describe("parseUnitSize", () => {
+  it.each([
+    ["512 B", 512, 512, 512],
+    ["2560 KB", 2621440, 2620928, 2621951],
+    ["2.5 MiB", 2621440, 2569012, 2673868],
+    ["1G", 1073741824, 536870912, 1610612735],
+  ])("parses %s", (raw, bytes, min, max) => {
+    expect(parseUnitSize(raw)).toStrictEqual({ raw, bytes, min, max });
+  });
+
+  it("returns undefined for text that isn't a size", () => {
+    expect(parseUnitSize("-")).toBeUndefined();
+    expect(parseUnitSize("lots")).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { inferFormat, parse } from "../src";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("lighttpd");
+
+describe("lighttpd", () => {
+  it("auto-inferred format", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+
+    expect(inferFormat(html)).toBe("lighttpd");
+  });
+
+  it("parse directory", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html);
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual([
+      "level2/",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "file_with_underscores.json",
+      "release.tar.gz",
+      "simple.txt",
+      "файл.txt",
+    ]);
+  });
+
+  it("extracts dates and sizes", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, "lighttpd");
+
+    const level2 = entries.find((entry) => entry.name === "level2");
+    const release = entries.find((entry) => entry.name === "release.tar.gz");
+
+    expect(level2).toStrictEqual({
+      type: "directory",
+      name: "level2",
+      path: "level2/",
+      href: "level2/",
+      lastModified: Date.UTC(2025, 5, 20, 2, 15, 11),
+      lastModifiedRaw: "2025-Jun-20 02:15:11",
+      lastModifiedPrecision: "second",
+      kind: "directory",
+    });
+
+    expect(release).toMatchObject({
+      type: "file",
+      lastModified: Date.UTC(2025, 5, 20, 2, 14, 3),
+      size: { raw: "34.0M", bytes: 35651584 },
+      kind: "archive",
+    });
+  });
+
+  it("respects the timezone option", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const [level2] = parse(html, { format: "lighttpd", timezone: "+02:00" });
+
+    expect(level2?.lastModified).toBe(Date.UTC(2025, 5, 20, 0, 15, 11));
+  });
+});
@@ -0,0 +1,138 @@
+import { readFileSync } from "node:fs";
+import { assert, describe, expect, it, vi } from "vitest";
+import { inferFormat, parse } from "../src";
+import { createSampleEntries, generateNginxListing } from "../src/test-utils";
+import { traverse } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("nginx");
+
+describe("nginx", () => {
+  it.each([
+    ["directory.html", "nginx"],
+    ["directory.json", "nginx-json"],
+    ["directory.xml", "nginx-xml"],
+  ])("infers the format of %s", (file, format) => {
+    const content = readFileSync(fixture(file), "utf-8");
+
+    expect(inferFormat(content)).toBe(format);
+  });
+
+  it("doesn't mistake apache's pre listings for nginx", () => {
+    const html = readFileSync(createFixture("F1")("directory.html"), "utf-8");
+
+    expect(inferFormat(html)).toBe("F1");
+  });
+
+  it("parses the html listing", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html);
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual([
+      "level2/",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "file_with_underscores.json",
+      "simple.txt",
+      "this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz",
+      "файл.txt",
+    ]);
+
+    const file = entries.find((entry) => entry.name === "file-with-dashes.html");
+
+    expect(file).toStrictEqual({
+      type: "file",
+      name: "file-with-dashes.html",
+      path: "file-with-dashes.html",
+      href: "file-with-dashes.html",
+      lastModified: Date.UTC(2025, 5, 20, 2, 14),
+      lastModifiedRaw: "20-Jun-2025 02:14",
+      lastModifiedPrecision: "minute",
+      size: { raw: "1532", bytes: 1532, min: 1532, max: 1532 },
+      kind: "document",
+    });
+  });
+
+  it("recovers names truncated by nginx", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, "nginx");
+
+    const names = entries.map((entry) => entry.name);
+
+    expect(names).toContain("this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz");
+    expect(names.some((name) => name.includes(".."))).toBe(false);
+  });
+
+  it.each([
+    ["directory.json", "nginx-json"],
+    ["directory.xml", "nginx-xml"],
+  ] as const)("parses %s into the same shape", (file, format) => {
+    const content = readFileSync(fixture(file), "utf-8");
+    const entries = parse(content, format);
+
+    expect(entries.map((entry) => entry.name)).toStrictEqual([
+      "level2",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "file_with_underscores.json",
+      "simple.txt",
+      "this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz",
+      "файл.txt",
+    ]);
+
+    const [dir, spaces] = entries;
+
+    expect(dir).toMatchObject({ type: "directory", path: "level2/", lastModified: Date.UTC(2025, 5, 20, 2, 15, 11) });
+    expect(spaces).toMatchObject({
+      type: "file",
+      path: "file with spaces.txt",
+      href: "file%20with%20spaces.txt",
+      lastModified: Date.UTC(2025, 5, 20, 2, 14, 3),
+      lastModifiedPrecision: "second",
+      size: { raw: "0", bytes: 0 },
+      kind: "text",
+    });
+  });
+
+  it("returns an empty array for malformed json", () => {
+    expect(parse("[{\"name\": ", "nginx-json")).toStrictEqual([]);
+    expect(parse("{\"name\": \"a\"}", "nginx-json")).toStrictEqual([]);
+  });
+
+  it.each([
+    ["nginx" as const],
+    ["nginx-json" as const],
+    ["nginx-xml" as const],
+  ])("round-trips entries through generateNginxListing (%s)", (format) => {
+    const entries = createSampleEntries();
+    const parsed = parse(generateNginxListing(entries, format), format);
+
+    expect(parsed.map((entry) => entry.path)).toStrictEqual(entries.map((entry) => entry.path));
+    expect(parsed.map((entry) => entry.type === "file" ? entry.size?.bytes : undefined))
+      .toStrictEqual(entries.map((entry) => entry.type === "file" ? entry.size?.bytes : undefined));
+  });
+
+  it("traverses nginx hosts", async () => {
+    const rootHtml = readFileSync(fixture("directory.html"), "utf-8");
+    const nestedJson = readFileSync(fixture("directory.json"), "utf-8");
+    const emptyHtml = "<html><body></body></html>";
+
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(rootHtml) })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(nestedJson) })
+      .mockResolvedValue({ ok: true, text: () => Promise.resolve(emptyHtml) });
+
+    vi.stubGlobal("fetch", mockFetch);
+
+    const result = await traverse("http://example.com/level1/");
+
+    const level2 = result.find((entry) => entry.name === "level2");
+
+    assert(level2?.type === "directory");
+    expect(level2.children).toHaveLength(7);
+    expect(mockFetch).toHaveBeenCalledWith("http://example.com/level1/level2/", expect.any(Object));
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parse } from "../src";
+import { traverse } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("nginx");
+
+const MIXED_LINKS = `<html>
+<head><title>Index of /pub/</title></head>
+<body>
+<h1>Index of /pub/</h1><hr><pre><a href="../">../</a>
+<a href="?C=M;O=A">sorted.txt</a>                                         01-Mar-2024 10:00                  13
+<a href="docs/">docs/</a>                                              01-Mar-2024 10:00                   -
+<a href="/pub/release.tar.gz">release.tar.gz</a>                                     01-Mar-2024 10:00             2621440
+<a href="https://mirror.example.org/pub/big.iso">big.iso</a>                                            01-Mar-2024 10:00          4294967296
+<a href="/other/file.txt">file.txt</a>                                           01-Mar-2024 10:00                  13
+<a href="notes%20v1.txt">notes v1.txt</a>                                       01-Mar-2024 10:00                  13
+</pre><hr></body>
+</html>`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("pageUrl option", () => {
+  it("resolves the url of every entry", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, { pageUrl: "https://example.com/level1/" });
+
+    expect(entries.map((entry) => entry.url)).toStrictEqual([
+      "https://example.com/level1/level2/",
+      "https://example.com/level1/file%20with%20spaces.txt",
+      "https://example.com/level1/file-with-dashes.html",
+      "https://example.com/level1/file_with_underscores.json",
+      "https://example.com/level1/simple.txt",
+      "https://example.com/level1/this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz",
+      "https://example.com/level1/%D1%84%D0%B0%D0%B9%D0%BB.txt",
+    ]);
+  });
+
+  it("treats the page url as a directory", () => {
+    const urls = (pageUrl: string | URL): (string | undefined)[] => parse(MIXED_LINKS, { format: "nginx", pageUrl }).map((entry) => entry.url);
+
+    expect(urls("https://example.com/pub")).toStrictEqual(urls("https://example.com/pub/"));
+    expect(urls(new URL("https://example.com/pub/?C=N;O=D#top"))).toStrictEqual(urls("https://example.com/pub/"));
+  });
+
+  it("drops entries outside of the directory", () => {
+    const entries = parse(MIXED_LINKS, { format: "nginx", pageUrl: "https://example.com/pub/" });
+
+    expect(entries.map(({ name, url }) => ({ name, url }))).toStrictEqual([
+      { name: "docs", url: "https://example.com/pub/docs/" },
+      { name: "release.tar.gz", url: "https://example.com/pub/release.tar.gz" },
+      { name: "notes v1.txt", url: "https://example.com/pub/notes%20v1.txt" },
+    ]);
+  });
+
+  it("keeps entries outside of the directory with externalEntries", () => {
+    const entries = parse(MIXED_LINKS, { format: "nginx", pageUrl: "https://example.com/pub/", externalEntries: "keep" });
+
+    expect(entries.filter((entry) => entry.external).map(({ name, url }) => ({ name, url }))).toStrictEqual([
+      { name: "sorted.txt", url: "https://example.com/pub/?C=M;O=A" },
+      { name: "big.iso", url: "https://mirror.example.org/pub/big.iso" },
+      { name: "file.txt", url: "https://example.com/other/file.txt" },
+    ]);
+    expect(entries.find((entry) => entry.name === "docs")).not.toHaveProperty("external");
+  });
+
+  it("doesn't resolve urls without pageUrl", () => {
+    const entries = parse(MIXED_LINKS, "nginx");
+
+    expect(entries).toHaveLength(6);
+    expect(entries.every((entry) => entry.url === undefined && entry.external === undefined)).toBe(true);
+  });
+
+  it("keeps url next to basePath", () => {
+    const entries = parse(MIXED_LINKS, { format: "nginx", pageUrl: "https://example.com/pub/", basePath: "/mirror" });
+
+    expect(entries[0]).toMatchObject({ path: "/mirror/docs/", url: "https://example.com/pub/docs/" });
+  });
+
+  it("throws for invalid page urls", () => {
+    expect(() => parse(MIXED_LINKS, { format: "nginx", pageUrl: "/pub/" })).toThrow(TypeError);
+  });
+});
+
+describe("traverse", () => {
+  it("fetches directories from their resolved url and skips external ones", async () => {
+    const mockFetch = vi.fn(async (url: string) => new Response(url === "http://example.com/pub/" ? MIXED_LINKS : "<html><body></body></html>"));
+    vi.stubGlobal("fetch", mockFetch);
+
+    const entries = await traverse("http://example.com/pub/", { format: "nginx" });
+
+    expect(entries.map((entry) => entry.url)).toStrictEqual([
+      "http://example.com/pub/docs/",
+      "http://example.com/pub/release.tar.gz",
+      "http://example.com/pub/notes%20v1.txt",
+    ]);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toStrictEqual(["http://example.com/pub/", "http://example.com/pub/docs/"]);
+  });
+
+  it("resolves links against the url the listing was redirected to", async () => {
+    const mockFetch = vi.fn(async (url: string) => {
+      const response = new Response(url === "http://example.com/pub" ? MIXED_LINKS : "<html><body></body></html>");
+      Object.defineProperty(response, "url", { value: url === "http://example.com/pub" ? "http://www.example.com/pub/" : url });
+      return response;
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    const entries = await traverse("http://example.com/pub", { format: "nginx" });
+
+    expect(entries[0]?.url).toBe("http://www.example.com/pub/docs/");
+    expect(mockFetch).toHaveBeenLastCalledWith("http://www.example.com/pub/docs/", expect.any(Object));
+  });
+});
@@ -0,0 +1,162 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { FormatDetectionError, parse, parsePage } from "../src";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("page");
+
+describe("parsePage", () => {
+  it("returns the entries alongside the metadata", () => {
+    const html = readFileSync(fixture("header-readme.html"), "utf-8");
+    const page = parsePage(html);
+
+    expect(page.format).toBe("F1");
+    expect(page.entries).toHaveLength(5);
+    expect(page.entries).toStrictEqual(parse(html));
+  });
+
+  it("parses the title and listed path", () => {
+    const html = readFileSync(fixture("header-readme.html"), "utf-8");
+    const page = parsePage(html);
+
+    expect(page.title).toBe("Index of /pub/releases");
+    expect(page.path).toBe("/pub/releases");
+  });
+
+  it.each([
+    ["F0", "unicode-org.html", "/Public"],
+    ["nginx", "directory.html", "/level1/"],
+    ["lighttpd", "directory.html", "/level1/"],
+    ["caddy", "directory.html", "/level1/"],
+    ["python", "directory.html", "/level1/"],
+    ["iis", "directory.html", "/level1/"],
+  ])("parses the listed path of %s listings", (name, file, path) => {
+    const html = readFileSync(createFixture(name)(file), "utf-8");
+
+    expect(parsePage(html).path).toBe(path);
+  });
+
+  it("parses header and readme content", () => {
+    const html = readFileSync(fixture("header-readme.html"), "utf-8");
+    const page = parsePage(html);
+
+    expect(page.header).toStrictEqual({
+      html: "<pre>\nRelease mirror &amp; archive\nPlease use a mirror close to you.\n</pre>",
+      text: "Release mirror & archive\nPlease use a mirror close to you.",
+    });
+
+    expect(page.readme?.html).toBe("<h2>Release notes</h2>\n<p>Version <b>2.0.0</b> drops support for Node 18.</p>");
+    expect(page.readme?.text).toBe("Release notes\nVersion 2.0.0 drops support for Node 18.");
+  });
+
+  it("parses html headers", () => {
+    const html = readFileSync(createFixture("F2")("unicode-org.html"), "utf-8");
+    const page = parsePage(html);
+
+    expect(page.header?.html).toContain("<!-- this is /file-header.html");
+    expect(page.header?.text).toContain("governed by the Terms of Use.");
+    expect(page.readme).toBeUndefined();
+  });
+
+  it("parses uppercase tags, unquoted attributes and comments", () => {
+    const html = `<HTML><HEAD><TITLE>Index of /pub</TITLE></HEAD>
+<BODY>
+<!-- a header that mentions </table> and <address> -->
+<P>Mirror <B>notes</B></P>
+<TABLE>
+<TR><TH><A HREF=?C=N;O=A>Name</A></TH><TH><A HREF=?C=S;O=D>Size</A></TH></TR>
+<TR><TD><IMG SRC=/icons/text.gif ALT="[TXT]"></TD><TD><A HREF=a.txt>a.txt</A></TD><TD ALIGN=right>2025-06-20 02:14</TD><TD ALIGN=right>13</TD><TD>&nbsp;</TD></TR>
+</TABLE>
+<P>Readme</P>
+<ADDRESS>Apache/2.4.62 Server at example.com Port 80</ADDRESS>
+</BODY></HTML>`;
+
+    const page = parsePage(html, { format: "F2" });
+
+    expect(page.title).toBe("Index of /pub");
+    expect(page.header?.text).toBe("Mirror notes");
+    expect(page.readme).toStrictEqual({ html: "<P>Readme</P>", text: "Readme" });
+    expect(page.server).toMatchObject({ software: "Apache", version: "2.4.62", host: "example.com", port: 80 });
+    expect(page.sort).toStrictEqual({ column: "size", direction: "ascending" });
+  });
+
+  it.each([
+    ["nginx", "directory.html"],
+    ["lighttpd", "directory.html"],
+    ["python", "directory.html"],
+  ])("has no header or readme for %s listings", (name, file) => {
+    const html = readFileSync(createFixture(name)(file), "utf-8");
+    const page = parsePage(html);
+
+    expect(page.header).toBeUndefined();
+    expect(page.readme).toBeUndefined();
+  });
+
+  it("doesn't treat apache's heading as a header", () => {
+    const html = readFileSync(fixture("signature.html"), "utf-8");
+    const page = parsePage(html);
+
+    expect(page.header).toBeUndefined();
+    expect(page.readme).toBeUndefined();
+  });
+
+  it("parses the server signature", () => {
+    const html = readFileSync(fixture("header-readme.html"), "utf-8");
+
+    expect(parsePage(html).server).toStrictEqual({
+      raw: "Apache/2.4.62 (Unix) OpenSSL/3.0.13 Server at mirror.example.com Port 443",
+      software: "Apache",
+      version: "2.4.62",
+      os: "Unix",
+      host: "mirror.example.com",
+      port: 443,
+    });
+  });
+
+  it("parses signatures without a version", () => {
+    const html = readFileSync(fixture("signature.html"), "utf-8");
+
+    expect(parsePage(html).server).toStrictEqual({
+      raw: "Apache Server at localhost Port 8080",
+      software: "Apache",
+      version: undefined,
+      os: undefined,
+      host: "localhost",
+      port: 8080,
+    });
+  });
+
+  it("parses the lighttpd footer", () => {
+    const html = readFileSync(createFixture("lighttpd")("directory.html"), "utf-8");
+
+    expect(parsePage(html).server).toMatchObject({ software: "lighttpd" });
+  });
+
+  it.each([
+    ["signature.html", { column: "size", direction: "ascending" }],
+    ["header-readme.html", { column: "lastModified", direction: "descending" }],
+  ])("parses the sort order of %s", (file, sort) => {
+    const html = readFileSync(fixture(file), "utf-8");
+
+    expect(parsePage(html).sort).toStrictEqual(sort);
+  });
+
+  it("parses the default sort order", () => {
+    const html = readFileSync(createFixture("F1")("directory.html"), "utf-8");
+
+    expect(parsePage(html).sort).toStrictEqual({ column: "name", direction: "ascending" });
+  });
+
+  it("has no sort order without sort links", () => {
+    const html = readFileSync(createFixture("nginx")("directory.html"), "utf-8");
+
+    expect(parsePage(html).sort).toBeUndefined();
+  });
+
+  it("throws a FormatDetectionError for pages that aren't listings, just like parse", () => {
+    const html = readFileSync(createFixture("detect")("index.html"), "utf-8");
+
+    expect(() => parsePage(html, { requireListing: true })).toThrow(FormatDetectionError);
+    expect(() => parsePage(html, { strict: true })).toThrow(FormatDetectionError);
+  });
+});
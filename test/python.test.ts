@@ -0,0 +1,52 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { inferFormat, parse } from "../src";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("python");
+
+describe("python http.server", () => {
+  it("auto-inferred format", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+
+    expect(inferFormat(html)).toBe("python");
+  });
+
+  it("parse directory", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html);
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual([
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "latest",
+      "level2/",
+      "simple.txt",
+      "файл.txt",
+    ]);
+  });
+
+  it("skips parent links", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, "python");
+
+    expect(entries.some((entry) => entry.path.startsWith(".."))).toBe(false);
+  });
+
+  it("strips the symlink marker from names", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, "python");
+
+    const latest = entries.find((entry) => entry.path === "latest");
+
+    expect(latest).toStrictEqual({
+      type: "file",
+      name: "latest",
+      path: "latest",
+      href: "latest",
+      lastModified: undefined,
+      size: undefined,
+      kind: "unknown",
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import type { Entry } from "../src";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { createRateLimiter, traverse } from "../src/traverse";
+import { directory, stubListings } from "./__utils";
+
+// the root of a.example has four directories, of which /mirror/ redirects to b.example
+const LISTINGS: Record<string, Entry[]> = {
+  "http://a.example/": [directory("one"), directory("two"), directory("three"), directory("mirror")],
+  "http://b.example/mirror/": [directory("one"), directory("two")],
+};
+
+const REDIRECTS: Record<string, string> = {
+  "http://a.example/mirror/": "http://b.example/mirror/",
+};
+
+/**
+ * Stubs fetch with the listings above and records when each URL was requested, relative to the start of the test.
+ */
+function recordRequests(listings = LISTINGS): [string, number][] {
+  const start = Date.now();
+  const requests: [string, number][] = [];
+
+  const serve = stubListings(listings, REDIRECTS);
+  vi.stubGlobal("fetch", async (url: string) => {
+    requests.push([url, Date.now() - start]);
+    return serve(url);
+  });
+
+  return requests;
+}
+
+/**
+ * Acquires the URLs at the same time and returns when each of them was let through, relative to the start.
+ */
+async function acquireAll(acquire: (url: string) => Promise<void>, urls: string[]): Promise<number[]> {
+  const start = Date.now();
+  const times: number[] = [];
+
+  const done = Promise.all(urls.map(async (url, index) => {
+    await acquire(url);
+    times[index] = Date.now() - start;
+  }));
+  await vi.runAllTimersAsync();
+  await done;
+
+  return times;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("createRateLimiter", () => {
+  it("spaces requests by requestsPerSecond", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 4 });
+
+    const times = await acquireAll(limiter.acquire, Array.from({ length: 4 }, () => "http://a.example/"));
+
+    expect(times).toStrictEqual([0, 250, 500, 750]);
+  });
+
+  it("lets a burst through at once", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, burst: 3 });
+
+    const times = await acquireAll(limiter.acquire, Array.from({ length: 5 }, () => "http://a.example/"));
+
+    expect(times).toStrictEqual([0, 0, 0, 500, 1000]);
+  });
+
+  it("refills the bucket over time", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, burst: 2 });
+
+    await acquireAll(limiter.acquire, ["http://a.example/", "http://a.example/"]);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await acquireAll(limiter.acquire, ["http://a.example/", "http://a.example/"])).toStrictEqual([0, 500]);
+  });
+
+  it("keeps a minimum delay between requests", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 10, burst: 5, minDelay: 300 });
+
+    const times = await acquireAll(limiter.acquire, Array.from({ length: 3 }, () => "http://a.example/"));
+
+    expect(times).toStrictEqual([0, 300, 600]);
+  });
+
+  it("only spaces requests by minDelay without requestsPerSecond", async () => {
+    const limiter = createRateLimiter({ minDelay: 100 });
+
+    const times = await acquireAll(limiter.acquire, Array.from({ length: 3 }, () => "http://a.example/"));
+
+    expect(times).toStrictEqual([0, 100, 200]);
+  });
+
+  it("gives every origin its own budget", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 1 });
+
+    const times = await acquireAll(limiter.acquire, [
+      "http://a.example/one/",
+      "http://b.example/one/",
+      "http://a.example/two/",
+      "https://a.example/two/",
+      "http://b.example:8080/",
+    ]);
+
+    expect(times).toStrictEqual([0, 0, 1000, 0, 0]);
+  });
+
+  it("uses the limits of specific origins", async () => {
+    const limiter = createRateLimiter({
+      requestsPerSecond: 10,
+      origins: { "http://b.example/any/path": { minDelay: 2000 } },
+    });
+
+    const times = await acquireAll(limiter.acquire, [
+      "http://a.example/",
+      "http://a.example/",
+      "http://b.example/",
+      "http://b.example/",
+    ]);
+
+    expect(times).toStrictEqual([0, 100, 0, 2000]);
+  });
+
+  it("keeps the budget of origins that weren't refilled yet while other origins are requested", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 1, origins: { "http://b.example": { minDelay: 2000 } } });
+
+    await acquireAll(limiter.acquire, ["http://a.example/", "http://b.example/"]);
+    await vi.advanceTimersByTimeAsync(500);
+
+    // c.example gets a new bucket, while the ones of a.example and b.example are still being refilled
+    expect(await acquireAll(limiter.acquire, ["http://c.example/", "http://a.example/", "http://b.example/"])).toStrictEqual([0, 500, 1500]);
+  });
+
+  it("starts origins over once their bucket was refilled", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, burst: 2 });
+
+    await acquireAll(limiter.acquire, ["http://a.example/", "http://a.example/"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await acquireAll(limiter.acquire, ["http://b.example/"]);
+
+    expect(await acquireAll(limiter.acquire, ["http://a.example/", "http://a.example/", "http://a.example/"])).toStrictEqual([0, 0, 500]);
+  });
+
+  it("makes the requests after a charge wait for its budget", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, minDelay: 100 });
+
+    limiter.charge("http://a.example/");
+
+    expect(await acquireAll(limiter.acquire, ["http://a.example/", "http://a.example/", "http://b.example/"])).toStrictEqual([500, 1000, 0]);
+  });
+
+  it("rejects once the signal is aborted", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire("http://a.example/", controller.signal);
+    const waiting = limiter.acquire("http://a.example/", controller.signal);
+    const assertion = expect(waiting).rejects.toThrow("stopped");
+
+    controller.abort(new Error("stopped"));
+    await assertion;
+  });
+
+  it("gives the budget of aborted requests to the ones behind them", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 10, minDelay: 200 });
+    const controller = new AbortController();
+    const start = Date.now();
+
+    await limiter.acquire("http://a.example/");
+    const aborted = Array.from({ length: 5 }, () => limiter.acquire("http://a.example/", controller.signal).catch(() => undefined));
+    const next = limiter.acquire("http://a.example/").then(() => Date.now() - start);
+
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    await Promise.all(aborted);
+
+    expect(await next).toBe(200);
+  });
+
+  it.each([
+    [{ requestsPerSecond: 0 }, "requestsPerSecond must be a positive number, got 0"],
+    [{ requestsPerSecond: Infinity }, "requestsPerSecond must be a positive number, got Infinity"],
+    [{ burst: 1.5 }, "burst must be a positive integer, got 1.5"],
+    [{ minDelay: -1 }, "minDelay must be a non-negative number, got -1"],
+    [{ origins: { "http://a.example": { burst: 0 } } }, "burst must be a positive integer for http://a.example, got 0"],
+  ])("rejects %o", (options, message) => {
+    expect(() => createRateLimiter(options)).toThrow(new RangeError(message));
+  });
+});
+
+describe("traverse", () => {
+  it("limits the requests to each host", async () => {
+    const requests = recordRequests();
+
+    const result = traverse("http://a.example/", {
+      format: "F2",
+      rateLimit: { requestsPerSecond: 10 },
+    });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(Object.fromEntries(requests)).toStrictEqual({
+      "http://a.example/": 0,
+      "http://a.example/one/": 100,
+      "http://a.example/two/": 200,
+      "http://a.example/three/": 300,
+      "http://a.example/mirror/": 400,
+      // the redirected request counts against the budget of b.example, but not the ones of a.example before it
+      "http://b.example/mirror/one/": 500,
+      "http://b.example/mirror/two/": 600,
+    });
+  });
+
+  it("shares a limiter between traversals", async () => {
+    const requests = recordRequests();
+    const rateLimit = createRateLimiter({ minDelay: 500 });
+
+    const results = Promise.all([
+      traverse("http://b.example/mirror/one/", { format: "F2", rateLimit }),
+      traverse("http://b.example/mirror/two/", { format: "F2", rateLimit }),
+    ]);
+    await vi.runAllTimersAsync();
+    await results;
+
+    expect(requests).toStrictEqual([
+      ["http://b.example/mirror/one/", 0],
+      ["http://b.example/mirror/two/", 500],
+    ]);
+  });
+
+  it("doesn't let an aborted traversal use up a shared budget", async () => {
+    const requests = recordRequests();
+    const rateLimit = createRateLimiter({ requestsPerSecond: 10 });
+    const controller = new AbortController();
+
+    // the root of a.example is fetched right away, its four directories wait for their turn
+    const aborted = traverse("http://a.example/", { format: "F2", rateLimit, abortSignal: controller.signal });
+    const assertion = expect(aborted).rejects.toThrow("stopped");
+    await vi.advanceTimersByTimeAsync(50);
+
+    controller.abort(new Error("stopped"));
+    const result = traverse("http://a.example/two/", { format: "F2", rateLimit });
+    await vi.runAllTimersAsync();
+    await assertion;
+    await result;
+
+    expect(requests).toStrictEqual([
+      ["http://a.example/", 0],
+      ["http://a.example/two/", 100],
+    ]);
+  });
+
+  it("doesn't hold a request slot while waiting for the budget", async () => {
+    const requests = recordRequests({ ...LISTINGS, "http://a.example/": [directory("mirror"), directory("one"), directory("two")] });
+
+    const result = traverse("http://a.example/", {
+      format: "F2",
+      concurrency: 1,
+      rateLimit: { origins: { "http://a.example": { minDelay: 1000 } } },
+    });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(Object.fromEntries(requests)).toStrictEqual({
+      "http://a.example/": 0,
+      "http://a.example/mirror/": 1000,
+      // requested while the directories of a.example wait for its budget
+      "http://b.example/mirror/one/": 1000,
+      "http://b.example/mirror/two/": 1000,
+      "http://a.example/one/": 2000,
+      "http://a.example/two/": 3000,
+    });
+  });
+
+  it("counts retries against the budget", async () => {
+    const requests: number[] = [];
+    const start = Date.now();
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      requests.push(Date.now() - start);
+      return requests.length === 1 ? new Response(null, { status: 502 }) : new Response(generateAutoIndexHtml([], "F2"));
+    }));
+
+    const result = traverse("http://a.example/", {
+      format: "F2",
+      retry: { minDelay: 10, jitter: false },
+      rateLimit: { minDelay: 1000 },
+    });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(requests).toStrictEqual([0, 1000]);
+  });
+
+  it("rejects invalid limits before fetching", async () => {
+    const requests = recordRequests();
+
+    await expect(traverse("http://a.example/", { rateLimit: { burst: 0 } })).rejects.toThrow(RangeError);
+    expect(requests).toStrictEqual([]);
+  });
+});
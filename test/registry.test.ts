@@ -0,0 +1,155 @@
+import type { Entry, FormatDefinition } from "../src";
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createStreamParser, detectFormat, inferFormat, parse, parseSize, parseWithDiagnostics, registerFormat, unregisterFormat } from "../src";
+import { traverse } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+declare module "../src" {
+  interface RegisteredFormats {
+    intranet: true;
+  }
+}
+
+const fixture = createFixture("registry");
+
+const THEMED = readFileSync(fixture("themed.html"), "utf-8");
+
+const intranet: FormatDefinition = {
+  name: "intranet",
+  family: "apache",
+  detect: (content) => content.includes("<div class=\"intranet-listing\">"),
+  parse: (content, context) => {
+    const entries: Entry[] = [];
+    const rows = content.matchAll(/<div class="entry (dir|file)"><a href="([^"]+)">([^<]+)<\/a><span class="date">([^<]+)<\/span>(?:<span class="size">([^<]+)<\/span>)?<\/div>/g);
+
+    for (const [, type, href, name, date, size] of rows) {
+      const lastModified = Date.parse(date!);
+      if (Number.isNaN(lastModified)) {
+        context.warn({ code: "invalid-date", message: `invalid last modified date "${date}"`, raw: date });
+      }
+
+      entries.push(type === "dir"
+        ? { type: "directory", name: name!, path: `${name}/`, href: href!, lastModified, kind: "directory" }
+        : { type: "file", name: name!, path: name!, href: href!, lastModified, size: size ? parseSize(size) : undefined, kind: "archive" });
+    }
+
+    return entries;
+  },
+};
+
+afterEach(() => {
+  unregisterFormat("intranet");
+  unregisterFormat("other");
+  vi.unstubAllGlobals();
+});
+
+describe("registerFormat", () => {
+  it("parses registered formats by name", () => {
+    registerFormat(intranet);
+
+    expect(parse(THEMED, "intranet").map((entry) => entry.path)).toStrictEqual(["v1.0/", "v1.0.tar.gz", "notes v1.txt"]);
+  });
+
+  it("applies basePath to the entries of registered formats", () => {
+    registerFormat(intranet);
+
+    expect(parse(THEMED, { format: "intranet", basePath: "/mirror" })[0]?.path).toBe("/mirror/v1.0/");
+  });
+
+  it("infers registered formats before built-in formats that are less confident", () => {
+    expect(inferFormat(THEMED)).toBe("F2");
+
+    registerFormat(intranet);
+
+    expect(inferFormat(THEMED)).toBe("intranet");
+    expect(detectFormat(THEMED)).toStrictEqual({
+      family: "apache",
+      format: "intranet",
+      confidence: 1,
+      evidence: ["registered format \"intranet\""],
+    });
+    expect(parse(THEMED)).toStrictEqual(parse(THEMED, "intranet"));
+  });
+
+  it("keeps built-in formats that are more confident", () => {
+    registerFormat({ ...intranet, detect: () => 0.5 });
+
+    expect(inferFormat(THEMED)).toBe("F2");
+  });
+
+  it("picks the most confident of the registered formats", () => {
+    registerFormat({ ...intranet, detect: () => 0.96 });
+    registerFormat({ ...intranet, name: "other", detect: () => true });
+
+    expect(detectFormat(THEMED)).toMatchObject({ format: "other", family: "apache", confidence: 1 });
+  });
+
+  it("reports the custom family by default", () => {
+    registerFormat({ ...intranet, family: undefined });
+
+    expect(detectFormat(THEMED).family).toBe("custom");
+  });
+
+  it("passes the timezone and warnings to the parser", () => {
+    const parser = vi.fn(() => []);
+    registerFormat({ ...intranet, parse: parser });
+
+    parse(THEMED, { format: "intranet", timezone: "Europe/Copenhagen" });
+
+    expect(parser).toHaveBeenCalledWith(THEMED, expect.objectContaining({ timezone: "Europe/Copenhagen" }));
+
+    unregisterFormat("intranet");
+    registerFormat(intranet);
+
+    expect(parseWithDiagnostics(THEMED.replace("2024-03-01T10:00:00Z", "soon")).warnings).toStrictEqual([
+      { code: "invalid-date", message: "invalid last modified date \"soon\"", raw: "soon" },
+    ]);
+  });
+
+  it("parses registered formats from streams once they have ended", () => {
+    registerFormat(intranet);
+    const parser = createStreamParser({ format: "intranet" });
+
+    expect(parser.write(THEMED)).toStrictEqual([]);
+    expect(parser.end()).toStrictEqual(parse(THEMED, "intranet"));
+  });
+
+  it("refuses names that are already registered", () => {
+    registerFormat(intranet);
+
+    expect(() => registerFormat(intranet)).toThrow("format \"intranet\" is already registered");
+    expect(() => registerFormat({ ...intranet, name: "F2" })).toThrow("format \"F2\" is already registered");
+  });
+
+  it("removes formats", () => {
+    registerFormat(intranet);
+
+    expect(unregisterFormat("intranet")).toBe(true);
+    expect(unregisterFormat("intranet")).toBe(false);
+    expect(inferFormat(THEMED)).toBe("F2");
+  });
+
+  it("throws for formats that aren't registered", () => {
+    // @ts-expect-error names that are neither built in nor declared in RegisteredFormats aren't accepted
+    expect(() => parse(THEMED, "f2")).toThrow("unknown format \"f2\"");
+    expect(() => parse(THEMED, "intranet")).toThrow("unknown format \"intranet\"");
+    expect(() => createStreamParser({ format: "intranet" })).toThrow("unknown format \"intranet\"");
+  });
+});
+
+describe("traverse", () => {
+  it("traverses registered formats", async () => {
+    registerFormat(intranet);
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => new Response(url.endsWith("/v1.0/") ? THEMED.replace(/<div class="entry[^\n]*\n/g, "") : THEMED)));
+
+    const entries = await traverse("http://example.com/releases/");
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual(["v1.0/", "v1.0.tar.gz", "notes v1.txt"]);
+    expect(entries[0]).toMatchObject({ listed: true, children: [] });
+  });
+
+  it("rejects formats that aren't registered", async () => {
+    await expect(traverse("http://example.com/", { format: "intranet" })).rejects.toThrow("unknown format \"intranet\"");
+  });
+});
@@ -0,0 +1,400 @@
+import type { AddressInfo } from "node:net";
+import type { RetryAttempt } from "../src/traverse";
+import { createServer } from "node:http";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { FetchError, HttpError } from "../src";
+import { parseRetryAfter } from "../src/retry";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { traverse } from "../src/traverse";
+import { directory, file } from "./__utils";
+
+const LISTING = generateAutoIndexHtml([file("ReadMe.txt")], "F2");
+
+/**
+ * Stubs fetch with responses that are served in order, errors are thrown instead of being returned.
+ */
+function stubResponses(...responses: (Response | Error)[]): ReturnType<typeof vi.fn> {
+  const mockFetch = vi.fn(async () => {
+    const response = responses.shift() ?? new Response(LISTING);
+    if (response instanceof Error) {
+      throw response;
+    }
+
+    return response;
+  });
+  vi.stubGlobal("fetch", mockFetch);
+
+  return mockFetch;
+}
+
+function attempts(onAttempt: ReturnType<typeof vi.fn>): Pick<RetryAttempt, "attempt" | "delay">[] {
+  return onAttempt.mock.calls.map(([{ attempt, delay }]) => ({ attempt, delay }));
+}
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("Mon, 19 Oct 2026 12:00:00 GMT");
+
+  it.each([
+    ["120", 120_000],
+    [" 0 ", 0],
+    ["Mon, 19 Oct 2026 12:00:30 GMT", 30_000],
+    ["Mon, 19 Oct 2026 11:59:00 GMT", 0],
+    ["Monday, 19-Oct-26 12:01:00 GMT", 60_000],
+    ["Mon Oct 19 12:00:10 2026", 10_000],
+    ["Mon, 19 Oct 2026 12:00:30 +0200", undefined],
+    ["19 Oct 2026 12:00:30", undefined],
+    ["foo 1", undefined],
+    ["soon", undefined],
+    ["-1", undefined],
+    ["", undefined],
+    [null, undefined],
+  ])("parses %s", (value, expected) => {
+    expect(parseRetryAfter(value, now)).toBe(expected);
+  });
+});
+
+describe("retry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries with exponential backoff", async () => {
+    const mockFetch = stubResponses(
+      new Response(null, { status: 502 }),
+      new Response(null, { status: 503 }),
+      new Response(null, { status: 500 }),
+    );
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", {
+      format: "F2",
+      retry: { attempts: 4, minDelay: 100, jitter: false, onAttempt },
+    });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200 + 400);
+
+    expect((await result).map((entry) => entry.path)).toStrictEqual(["ReadMe.txt"]);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect(attempts(onAttempt)).toStrictEqual([
+      { attempt: 1, delay: 100 },
+      { attempt: 2, delay: 200 },
+      { attempt: 3, delay: 400 },
+    ]);
+  });
+
+  it("caps the delay at maxDelay", async () => {
+    stubResponses(new Response(null, { status: 502 }), new Response(null, { status: 502 }));
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", {
+      format: "F2",
+      retry: { minDelay: 100, maxDelay: 150, factor: 3, jitter: false, onAttempt },
+    });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: 100 }, { attempt: 2, delay: 150 }]);
+  });
+
+  it("randomizes the delays with jitter", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    stubResponses(new Response(null, { status: 502 }));
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { minDelay: 1000, onAttempt } });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: 750 }]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const mockFetch = stubResponses(
+      new Response(null, { status: 502 }),
+      new Response(null, { status: 502 }),
+      new Response(null, { status: 502 }),
+    );
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", {
+      format: "F2",
+      strict: true,
+      retry: { minDelay: 100, jitter: false, onAttempt },
+    });
+    const assertion = expect(result).rejects.toThrow(HttpError);
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(attempts(onAttempt)).toStrictEqual([
+      { attempt: 1, delay: 100 },
+      { attempt: 2, delay: 200 },
+      { attempt: 3, delay: undefined },
+    ]);
+  });
+
+  it("reports the url and error of each attempt", async () => {
+    const response = new Response(null, { status: 503, statusText: "Service Unavailable" });
+    stubResponses(response);
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { jitter: false, onAttempt } });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(onAttempt).toHaveBeenCalledWith({ url: "http://example.com/", attempt: 1, error: expect.any(HttpError), delay: 500 });
+    expect(onAttempt.mock.calls[0]![0].error).toMatchObject({ status: 503, statusText: "Service Unavailable" });
+  });
+
+  it.each([429, 503])("waits as long as the Retry-After header of a %d asks for", async (status) => {
+    const mockFetch = stubResponses(new Response(null, { status, headers: { "Retry-After": "2" } }));
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { minDelay: 100, onAttempt } });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await result;
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: 2000 }]);
+  });
+
+  it("honors a Retry-After date", async () => {
+    vi.setSystemTime(Date.parse("Mon, 19 Oct 2026 12:00:00 GMT"));
+    stubResponses(new Response(null, { status: 429, headers: { "Retry-After": "Mon, 19 Oct 2026 12:00:05 GMT" } }));
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { onAttempt } });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: 5000 }]);
+  });
+
+  it("ignores the Retry-After header of other statuses", async () => {
+    stubResponses(new Response(null, { status: 502, headers: { "Retry-After": "60" } }));
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { minDelay: 100, jitter: false, onAttempt } });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: 100 }]);
+  });
+
+  it("gives up when Retry-After is longer than maxDelay", async () => {
+    const mockFetch = stubResponses(new Response(null, { status: 429, headers: { "Retry-After": "3600" } }));
+    const onAttempt = vi.fn();
+
+    const entries = await traverse("http://example.com/", { format: "F2", retry: { maxDelay: 60_000, onAttempt } });
+
+    expect(entries).toStrictEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: undefined }]);
+  });
+
+  it("only retries the configured status codes", async () => {
+    const mockFetch = stubResponses(new Response(null, { status: 503 }));
+
+    const entries = await traverse("http://example.com/", { format: "F2", retry: { statusCodes: [502] } });
+
+    expect(entries).toStrictEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry client errors by default", async () => {
+    const mockFetch = stubResponses(new Response(null, { status: 404 }));
+
+    await traverse("http://example.com/", { format: "F2", retry: {} });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors", async () => {
+    const mockFetch = stubResponses(new TypeError("fetch failed"));
+    const onAttempt = vi.fn();
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { onAttempt } });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    expect(onAttempt).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(FetchError) }));
+    expect(onAttempt.mock.calls[0]![0].error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it.each([
+    [false, 1],
+    [(error: FetchError) => (error.cause as Error).message === "fetch failed", 2],
+    [(error: FetchError) => (error.cause as Error).message === "getaddrinfo ENOTFOUND", 1],
+  ])("decides whether to retry network errors with %s", async (networkErrors, expected) => {
+    const mockFetch = stubResponses(new TypeError("fetch failed"));
+
+    const result = traverse("http://example.com/", { format: "F2", retry: { networkErrors } });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(mockFetch).toHaveBeenCalledTimes(expected);
+  });
+
+  it("doesn't retry without a retry policy", async () => {
+    const mockFetch = stubResponses(new Response(null, { status: 503 }));
+
+    await traverse("http://example.com/", { format: "F2" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets other listings be requested while waiting to retry", async () => {
+    const start = Date.now();
+    const requests: [string, number][] = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+      requests.push([new URL(url).pathname, Date.now() - start]);
+
+      if (url === "http://example.com/") {
+        return new Response(generateAutoIndexHtml([directory("a"), directory("b")], "F2"));
+      }
+
+      // the first request for a/ fails
+      return url.endsWith("/a/") && requests.length === 2
+        ? new Response(null, { status: 502 })
+        : new Response(generateAutoIndexHtml([], "F2"));
+    }));
+
+    const result = traverse("http://example.com/", { format: "F2", concurrency: 1, retry: { minDelay: 1000, jitter: false } });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(requests).toStrictEqual([["/", 0], ["/a/", 0], ["/b/", 0], ["/a/", 1000]]);
+  });
+
+  it("stops waiting when it is aborted", async () => {
+    const mockFetch = stubResponses(new Response(null, { status: 503, headers: { "Retry-After": "10" } }));
+    const controller = new AbortController();
+
+    const result = traverse("http://example.com/", { format: "F2", abortSignal: controller.signal, retry: {} });
+    const assertion = expect(result).rejects.toThrow("stopped");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort(new Error("stopped"));
+    await assertion;
+
+    await vi.runAllTimersAsync();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retry against a flaky server", () => {
+  const PARTIAL = generateAutoIndexHtml(["a.txt", "b.txt", "c.txt", "d.txt"].map(file), "F2");
+
+  let baseUrl: string;
+  let requests: Record<string, number> = {};
+
+  // "/" fails the first two requests, the first with a reset connection and the second with a 502.
+  // "/partial/" resets the connection of the first request after sending the rows of a.txt and b.txt
+  const server = createServer((req, res) => {
+    const count = requests[req.url!] = (requests[req.url!] ?? 0) + 1;
+
+    if (req.url === "/partial/") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+
+      if (count === 1) {
+        res.write(PARTIAL.slice(0, PARTIAL.indexOf("c.txt")));
+        setTimeout(() => req.socket.destroy(), 20);
+      } else {
+        res.end(PARTIAL);
+      }
+
+      return;
+    }
+
+    if (count === 1) {
+      req.socket.destroy();
+      return;
+    }
+
+    if (count === 2) {
+      res.writeHead(502, { "Content-Type": "text/plain" });
+      res.end("Bad Gateway");
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(LISTING);
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  beforeEach(() => {
+    requests = {};
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("retries until the listing is served", async () => {
+    const onAttempt = vi.fn();
+
+    const entries = await traverse(baseUrl, {
+      format: "F2",
+      strict: true,
+      retry: { minDelay: 10, jitter: false, onAttempt },
+    });
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual(["ReadMe.txt"]);
+    expect(requests).toStrictEqual({ "/": 3 });
+    expect(onAttempt.mock.calls.map(([{ error }]) => error.constructor)).toStrictEqual([FetchError, HttpError]);
+  });
+
+  it("retries listings whose connection is reset while the body is read", async () => {
+    const onFile = vi.fn();
+    let visitedBeforeRetry: string[] = [];
+    const onAttempt = vi.fn((_: RetryAttempt) => {
+      visitedBeforeRetry = onFile.mock.calls.map(([entry]) => entry.path);
+    });
+
+    const entries = await traverse(`${baseUrl}partial/`, {
+      format: "F2",
+      strict: true,
+      retry: { minDelay: 10, jitter: false, onAttempt },
+      onFile,
+    });
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual(["a.txt", "b.txt", "c.txt", "d.txt"]);
+    expect(requests).toStrictEqual({ "/partial/": 2 });
+    expect(attempts(onAttempt)).toStrictEqual([{ attempt: 1, delay: 10 }]);
+    expect(onAttempt.mock.calls[0]![0].error).toBeInstanceOf(FetchError);
+
+    // the rows of the failed attempt are visited as they arrive, but not again after the retry
+    expect(visitedBeforeRetry).toStrictEqual(["a.txt", "b.txt"]);
+    expect(onFile.mock.calls.map(([entry]) => entry.path)).toStrictEqual(["a.txt", "b.txt", "c.txt", "d.txt"]);
+  });
+
+  it("rejects with a FetchError when the connection is reset while the body is read", async () => {
+    const error = await traverse(`${baseUrl}partial/`, { format: "F2", strict: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toMatchObject({ url: `${baseUrl}partial/`, message: `failed to read directory listing from ${baseUrl}partial/` });
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+});
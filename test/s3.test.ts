@@ -0,0 +1,249 @@
+import type { AddressInfo } from "node:net";
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { afterAll, assert, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { inferFormat, parse } from "../src";
+import { traverseBucket } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const fixture = createFixture("s3");
+
+interface FakeBucket {
+  keys: string[];
+
+  /**
+   * The number of keys and prefixes that are returned per page
+   */
+  maxKeys: number;
+
+  /**
+   * A continuation token that is returned on every truncated page, while the one in the query is ignored
+   */
+  fixedToken?: string;
+}
+
+let baseUrl: string;
+let bucket: FakeBucket = { keys: [], maxKeys: 2 };
+let requested: string[] = [];
+
+/**
+ * A minimal ListObjectsV2 implementation, returning at most `maxKeys` keys and prefixes per page.
+ */
+function listBucket({ keys, maxKeys, fixedToken }: FakeBucket, url: URL): string {
+  const prefix = url.searchParams.get("prefix") ?? "";
+  const delimiter = url.searchParams.get("delimiter");
+  const start = fixedToken ? 0 : Number(url.searchParams.get("continuation-token") ?? 0);
+
+  const items: ({ key: string } | { prefix: string })[] = [];
+  const seen = new Set<string>();
+
+  for (const key of keys.filter((key) => key.startsWith(prefix)).sort()) {
+    const index = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+    if (index === -1) {
+      items.push({ key });
+      continue;
+    }
+
+    const commonPrefix = key.slice(0, index + 1);
+    if (!seen.has(commonPrefix)) {
+      seen.add(commonPrefix);
+      items.push({ prefix: commonPrefix });
+    }
+  }
+
+  const page = items.slice(start, start + maxKeys);
+  const isTruncated = start + maxKeys < items.length;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+  <Name>bucket</Name>
+  <Prefix>${escapeXml(prefix)}</Prefix>
+  <KeyCount>${page.length}</KeyCount>
+  <MaxKeys>${maxKeys}</MaxKeys>
+  <IsTruncated>${isTruncated}</IsTruncated>
+  ${isTruncated ? `<NextContinuationToken>${fixedToken ?? start + maxKeys}</NextContinuationToken>` : ""}
+  ${page.map((item) => "key" in item
+    ? `<Contents><Key>${escapeXml(item.key)}</Key><LastModified>2025-06-20T02:14:03.000Z</LastModified><ETag>&quot;etag&quot;</ETag><Size>13</Size></Contents>`
+    : `<CommonPrefixes><Prefix>${escapeXml(item.prefix)}</Prefix></CommonPrefixes>`).join("\n")}
+</ListBucketResult>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+const server = createServer((req, res) => {
+  requested.push(req.url!);
+
+  res.writeHead(200, { "Content-Type": "application/xml" });
+  res.end(listBucket(bucket, new URL(req.url!, baseUrl)));
+});
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+beforeEach(() => {
+  bucket = { keys: [], maxKeys: 2 };
+  requested = [];
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("s3", () => {
+  it("auto-inferred format", () => {
+    const content = readFileSync(fixture("list-bucket.xml"), "utf-8");
+
+    expect(inferFormat(content)).toBe("s3");
+  });
+
+  it("parses objects and common prefixes", () => {
+    const content = readFileSync(fixture("list-bucket.xml"), "utf-8");
+    const entries = parse(content);
+
+    expect(entries.map((entry) => entry.path)).toStrictEqual([
+      "level2/",
+      "file with spaces.txt",
+      "file-with-dashes.html",
+      "release.tar.gz",
+      "tom & jerry.txt",
+      "файл.txt",
+    ]);
+
+    const [level2, , dashes] = entries;
+
+    expect(level2).toStrictEqual({
+      type: "directory",
+      name: "level2",
+      path: "level2/",
+      href: "level2/",
+      lastModified: undefined,
+      kind: "directory",
+    });
+
+    expect(dashes).toStrictEqual({
+      type: "file",
+      name: "file-with-dashes.html",
+      path: "file-with-dashes.html",
+      href: "file-with-dashes.html",
+      lastModified: Date.UTC(2025, 5, 20, 2, 14, 3),
+      lastModifiedRaw: "2025-06-20T02:14:03.000Z",
+      lastModifiedPrecision: "second",
+      size: { raw: "1532", bytes: 1532, min: 1532, max: 1532 },
+      etag: "\"5d41402abc4b2a76b9719d911017c592\"",
+      kind: "document",
+    });
+  });
+
+  it("decodes url encoded keys", () => {
+    const content = `<ListBucketResult>
+  <Prefix>a%2F</Prefix>
+  <EncodingType>url</EncodingType>
+  <Contents><Key>a%2Fhello+world.txt</Key><Size>1</Size></Contents>
+</ListBucketResult>`;
+
+    const [entry] = parse(content, "s3");
+
+    expect(entry).toMatchObject({ name: "hello world.txt", path: "hello world.txt", href: "hello%20world.txt" });
+  });
+
+  it("traverses paginated buckets", async () => {
+    bucket.keys = [
+      "readme.md",
+      "releases/v1/app.tar.gz",
+      "releases/v1/checksums.txt",
+      "releases/v2/app.tar.gz",
+      "releases/latest.txt",
+      "releases/notes.txt",
+      "releases/zz.txt",
+    ];
+
+    const onFile = vi.fn();
+    const result = await traverseBucket(`${baseUrl}bucket`, { onFile });
+
+    expect(result.map((entry) => entry.path)).toStrictEqual(["releases/", "readme.md"]);
+
+    const releases = result.find((entry) => entry.name === "releases");
+    assert(releases?.type === "directory");
+
+    expect(releases.children.map((entry) => entry.path)).toStrictEqual([
+      "releases/latest.txt",
+      "releases/notes.txt",
+      "releases/v1/",
+      "releases/v2/",
+      "releases/zz.txt",
+    ]);
+
+    const v1 = releases.children.find((entry) => entry.name === "v1");
+    assert(v1?.type === "directory");
+
+    expect(v1.children.map((entry) => entry.path)).toStrictEqual([
+      "releases/v1/app.tar.gz",
+      "releases/v1/checksums.txt",
+    ]);
+    expect(onFile).toHaveBeenCalledTimes(7);
+
+    expect(requested).toContain("/bucket?list-type=2&delimiter=%2F&prefix=releases%2F&continuation-token=2");
+  });
+
+  it("lists prefixes by their full key", async () => {
+    bucket.keys = ["notes /draft.txt", " archive/old.txt", "a&b/c.txt"];
+
+    const result = await traverseBucket(`${baseUrl}bucket`);
+
+    expect(result.map((entry) => [entry.name, entry.type === "directory" && entry.children.map((child) => child.name)])).toStrictEqual([
+      ["archive", ["old.txt"]],
+      ["a&b", ["c.txt"]],
+      ["notes", ["draft.txt"]],
+    ]);
+    expect(requested).toContain("/bucket?list-type=2&delimiter=%2F&prefix=notes+%2F");
+  });
+
+  it("stops at a page that repeats its continuation token", async () => {
+    bucket = { keys: ["a.txt", "b.txt", "c.txt"], maxKeys: 2, fixedToken: "next" };
+
+    const result = await traverseBucket(`${baseUrl}bucket`);
+
+    expect(result.map((entry) => entry.path)).toStrictEqual(["a.txt", "b.txt"]);
+    expect(requested).toStrictEqual([
+      "/bucket?list-type=2&delimiter=%2F",
+      "/bucket?list-type=2&delimiter=%2F&continuation-token=next",
+    ]);
+  });
+
+  it("throws on a repeated continuation token in strict mode", async () => {
+    bucket = { keys: ["a.txt", "b.txt", "c.txt"], maxKeys: 2, fixedToken: "next" };
+
+    await expect(traverseBucket(`${baseUrl}bucket`, { strict: true })).rejects.toMatchObject({
+      name: "ParseError",
+      code: "malformed-content",
+      message: "continuation token next was returned again",
+      url: `${baseUrl}bucket`,
+    });
+  });
+
+  it("starts at the given prefix", async () => {
+    bucket.keys = ["readme.md", "releases/v1/app.tar.gz", "releases/notes.txt"];
+
+    const result = await traverseBucket(`${baseUrl}bucket`, { prefix: "releases/", basePath: "/mirror" });
+
+    expect(result.map((entry) => entry.path)).toStrictEqual(["/mirror/v1/", "/mirror/notes.txt"]);
+  });
+
+  it("doesn't list prefixes deeper than maxDepth", async () => {
+    bucket.keys = ["releases/v1/app.tar.gz", "releases/notes.txt"];
+
+    const result = await traverseBucket(`${baseUrl}bucket`, { maxDepth: 1 });
+
+    const releases = result[0];
+    assert(releases?.type === "directory");
+
+    expect(releases).toMatchObject({ expanded: true, listed: true });
+    expect(releases.children[0]).toMatchObject({ path: "releases/v1/", expanded: false, listed: false, children: [] });
+    expect(requested).toHaveLength(2);
+  });
+});
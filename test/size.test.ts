@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parse, parseSize } from "../src";
+import { createSampleEntries, generateAutoIndexHtml } from "../src/test-utils";
+import { createFixture } from "./__utils";
+
+describe("parseSize", () => {
+  it.each([
+    ["0", 0, 0, 0],
+    ["588", 588, 588, 588],
+    ["972", 972, 972, 972],
+    ["1.0K", 1024, 973, 1075],
+    ["1.2K", 1229, 1178, 1279],
+    ["9.9K", 10138, 10087, 10188],
+    ["34K", 34816, 34304, 35327],
+    ["34M", 35651584, 35127296, 36175871],
+    ["1.5G", 1610612736, 1556925645, 1664299827],
+  ])("parses %s", (raw, bytes, min, max) => {
+    expect(parseSize(raw)).toStrictEqual({ raw, bytes, min, max });
+  });
+
+  it("keeps the raw text of sizes that aren't printed", () => {
+    expect(parseSize("-")).toStrictEqual({
+      raw: "-",
+      bytes: undefined,
+      min: undefined,
+      max: undefined,
+    });
+  });
+
+  it("trims surrounding whitespace", () => {
+    expect(parseSize("  12K ")?.raw).toBe("12K");
+  });
+
+  it.each(["", "Text Document", "1.2.3K", "12X", "&nbsp;"])("returns undefined for %j", (raw) => {
+    expect(parseSize(raw)).toBeUndefined();
+  });
+});
+
+describe.each([
+  ["F1" as const],
+  ["F2" as const],
+])("size column (%s)", (format) => {
+  const fixture = createFixture(format);
+
+  it("extracts sizes from the fixture listing", () => {
+    const html = readFileSync(fixture("directory.html"), "utf-8");
+    const entries = parse(html, format);
+
+    const files = entries.filter((entry) => entry.type === "file");
+
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.every((file) => file.size?.raw === "0" && file.size.bytes === 0)).toBe(true);
+  });
+
+  it("round-trips sizes through generateAutoIndexHtml", () => {
+    const html = generateAutoIndexHtml(createSampleEntries(), format);
+    const entries = parse(html, format);
+
+    const sizes = Object.fromEntries(
+      entries.flatMap((entry) => entry.type === "file" ? [[entry.name, entry.size]] : []),
+    );
+
+    expect(sizes).toStrictEqual({
+      "README.md": parseSize("1.2K"),
+      "package.json": parseSize("588"),
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import type { Entry } from "../src";
+import { readFileSync } from "node:fs";
+import { describe, expect, it, vi } from "vitest";
+import { createStreamParser, inferFormat, parse, parseSize, parseStream } from "../src";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { traverse } from "../src/traverse";
+import { createFixture } from "./__utils";
+
+const FIXTURES = [
+  ["F0", "directory.html"],
+  ["F0", "special-files.html"],
+  ["F0", "unicode-org.html"],
+  ["F1", "directory.html"],
+  ["F1", "special-files.html"],
+  ["F1", "unicode-org.html"],
+  ["F2", "directory.html"],
+  ["F2", "special-files.html"],
+  ["F2", "unicode-org.html"],
+  ["nginx", "directory.html"],
+  ["nginx", "directory.json"],
+  ["nginx", "directory.xml"],
+  ["lighttpd", "directory.html"],
+  ["caddy", "directory.html"],
+  ["caddy", "directory.json"],
+  ["python", "directory.html"],
+  ["iis", "directory.html"],
+  ["iis", "long-date.html"],
+  ["s3", "list-bucket.xml"],
+  ["page", "header-readme.html"],
+] as const;
+
+function chunk(content: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < content.length; i += size) {
+    chunks.push(content.slice(i, i + size));
+  }
+
+  return chunks;
+}
+
+function writeAll(content: string, size: number, options?: Parameters<typeof createStreamParser>[0]): Entry[] {
+  const parser = createStreamParser(options);
+  const entries = chunk(content, size).flatMap((part) => parser.write(part));
+
+  return [...entries, ...parser.end()];
+}
+
+function createFiles(count: number): Entry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: "file",
+    name: `file-${String(i).padStart(5, "0")}.txt`,
+    path: `file-${String(i).padStart(5, "0")}.txt`,
+    href: `file-${String(i).padStart(5, "0")}.txt`,
+    lastModified: Date.UTC(2024, 0, 1, 12, 30),
+    size: parseSize("1.2K"),
+    kind: "text",
+  }));
+}
+
+function toReadableStream(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += size) {
+        controller.enqueue(bytes.slice(i, i + size));
+      }
+
+      controller.close();
+    },
+  });
+}
+
+describe("createStreamParser", () => {
+  it.each(FIXTURES.flatMap(([name, file]) => [1, 7, 100].map((size) => [name, file, size] as const)))(
+    "parses %s/%s written in chunks of %i",
+    (name, file, size) => {
+      const content = readFileSync(createFixture(name)(file), "utf-8");
+      const format = inferFormat(content);
+
+      expect(writeAll(content, size, { format })).toStrictEqual(parse(content, { format }));
+      expect(writeAll(content, size)).toStrictEqual(parse(content));
+    },
+  );
+
+  it.each(["F0", "F1", "F2", "nginx", "nginx-json", "nginx-xml"] as const)("returns %s entries before the page has ended", (format) => {
+    const html = generateAutoIndexHtml(createFiles(2000), format);
+    const parser = createStreamParser();
+    const chunks = chunk(html, 4096);
+
+    const early = chunks.slice(0, -1).flatMap((part) => parser.write(part));
+    const rest = [...parser.write(chunks.at(-1)!), ...parser.end()];
+
+    expect(parser.format).toBe(format);
+    expect(early.length).toBeGreaterThan(1000);
+    expect([...early, ...rest]).toStrictEqual(parse(html));
+  });
+
+  it("doesn't return rows that are split across chunks before they are complete", () => {
+    const parser = createStreamParser({ format: "F2" });
+    const html = generateAutoIndexHtml(createFiles(2), "F2");
+    const split = html.indexOf("file-00001.txt");
+
+    expect(parser.write(html.slice(0, split)).map((entry) => entry.name)).toStrictEqual(["file-00000.txt"]);
+    expect(parser.write(html.slice(split)).map((entry) => entry.name)).toStrictEqual(["file-00001.txt"]);
+    expect(parser.end()).toStrictEqual([]);
+  });
+
+  it("keeps braces and quotes in json names", () => {
+    const json = JSON.stringify([
+      { name: "a}b{[c].txt", type: "file", size: 1 },
+      { name: "quote\"d\\", type: "directory" },
+    ]);
+
+    expect(writeAll(json, 3, { format: "nginx-json" })).toStrictEqual(parse(json, { format: "nginx-json" }));
+    expect(writeAll(json, 3, { format: "nginx-json" }).map((entry) => entry.name)).toStrictEqual(["a}b{[c].txt", "quote\"d\\"]);
+  });
+
+  it("applies basePath and timezone", () => {
+    const content = readFileSync(createFixture("F1")("directory.html"), "utf-8");
+    const options = { basePath: "/mirror", timezone: "Europe/Copenhagen" };
+
+    expect(writeAll(content, 10, options)).toStrictEqual(parse(content, options));
+  });
+
+  it("exposes the detection of the format", () => {
+    const parser = createStreamParser();
+    parser.write(readFileSync(createFixture("nginx")("directory.html"), "utf-8"));
+
+    expect(parser.format).toBeUndefined();
+
+    parser.end();
+
+    expect(parser.format).toBe("nginx");
+    expect(parser.detection?.family).toBe("nginx");
+  });
+
+  it("refuses pages that aren't listings", () => {
+    const parser = createStreamParser({ requireListing: true });
+    parser.write(readFileSync(createFixture("detect")("index.html"), "utf-8"));
+
+    expect(() => parser.end()).toThrow("content is not a recognized directory listing");
+  });
+
+  it("can't be written to after it has ended", () => {
+    const parser = createStreamParser();
+    parser.end();
+
+    expect(() => parser.write("<html>")).toThrow("cannot write to a stream parser that has ended");
+  });
+});
+
+describe("parseStream", () => {
+  it("parses a ReadableStream, keeping characters split across chunks intact", async () => {
+    const html = generateAutoIndexHtml([
+      ...createFiles(3),
+      { type: "file", name: "файл.txt", path: "файл.txt", href: encodeURIComponent("файл.txt"), lastModified: undefined, size: undefined, kind: "text" },
+    ], "F2");
+
+    const entries: Entry[] = [];
+    for await (const entry of parseStream(toReadableStream(new TextEncoder().encode(html), 5))) {
+      entries.push(entry);
+    }
+
+    expect(entries).toStrictEqual(parse(html));
+    expect(entries.at(-1)?.name).toBe("файл.txt");
+  });
+
+  it("parses an async iterable of strings", async () => {
+    const content = readFileSync(createFixture("caddy")("directory.json"), "utf-8");
+
+    async function* source(): AsyncGenerator<string> {
+      yield* chunk(content, 16);
+    }
+
+    const entries: Entry[] = [];
+    for await (const entry of parseStream(source())) {
+      entries.push(entry);
+    }
+
+    expect(entries).toStrictEqual(parse(content));
+  });
+
+  it("cancels the stream when iteration stops early", async () => {
+    const html = generateAutoIndexHtml(createFiles(2000), "F1");
+    const cancel = vi.fn();
+    const bytes = new TextEncoder().encode(html);
+    let offset = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(bytes.slice(offset, offset + 4096));
+        offset += 4096;
+        if (offset >= bytes.length) {
+          controller.close();
+        }
+      },
+      cancel,
+    });
+
+    const entries = parseStream(stream, { format: "F1" });
+    const first = await entries.next();
+    await entries.return(undefined);
+
+    expect(first.value).toMatchObject({ name: "file-00000.txt" });
+
+    expect(cancel).toHaveBeenCalledOnce();
+    expect(offset).toBeLessThan(bytes.length);
+  });
+});
+
+describe("traverse", () => {
+  it("reads the response body as a stream", async () => {
+    const root = generateAutoIndexHtml([
+      { type: "directory", name: "sub", path: "sub/", href: "sub/", lastModified: undefined, kind: "directory" },
+      ...createFiles(2),
+    ], "F1");
+    const sub = generateAutoIndexHtml(createFiles(1), "F1");
+
+    const text = vi.fn();
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => ({
+      ok: true,
+      body: toReadableStream(new TextEncoder().encode(url.endsWith("/sub/") ? sub : root), 64),
+      text,
+    })));
+
+    const entries = await traverse("http://example.com/");
+
+    expect(text).not.toHaveBeenCalled();
+    expect(entries.map((entry) => entry.path)).toStrictEqual(["sub/", "file-00000.txt", "file-00001.txt"]);
+    expect(entries[0]).toMatchObject({ listed: true, children: [{ path: "sub/file-00000.txt" }] });
+
+    vi.unstubAllGlobals();
+  });
+});
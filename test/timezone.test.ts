@@ -0,0 +1,99 @@
+import type { Entry } from "../src";
+import { describe, expect, it, vi } from "vitest";
+import { createStreamParser, parse } from "../src";
+import { generateAutoIndexHtml } from "../src/test-utils";
+import { traverse } from "../src/traverse";
+
+function createListing(date: string): string {
+  return `<html><body><pre><a href="?C=N;O=D;F=1">Name</a><hr><a href="release.tar.gz">release.tar.gz</a>   ${date}   34M
+<hr></pre></body></html>`;
+}
+
+describe("timezone option", () => {
+  it("interprets dates as utc by default", () => {
+    const [entry] = parse(createListing("2024-05-01 13:37"), "F1");
+
+    expect(entry?.lastModified).toBe(Date.UTC(2024, 4, 1, 13, 37));
+  });
+
+  it.each([
+    ["Europe/Copenhagen", "2024-05-01 13:37", Date.UTC(2024, 4, 1, 11, 37)],
+    ["Europe/Copenhagen", "2024-01-15 13:37", Date.UTC(2024, 0, 15, 12, 37)],
+    ["America/New_York", "01-Nov-2024 08:00", Date.UTC(2024, 10, 1, 12, 0)],
+    ["Asia/Kolkata", "2024-05-01 13:37", Date.UTC(2024, 4, 1, 8, 7)],
+    ["+02:00", "2024-05-01 13:37", Date.UTC(2024, 4, 1, 11, 37)],
+    ["-0800", "2024-05-01 13:37", Date.UTC(2024, 4, 1, 21, 37)],
+    ["UTC+5:30", "2024-05-01 13:37", Date.UTC(2024, 4, 1, 8, 7)],
+    ["GMT", "2024-05-01 13:37", Date.UTC(2024, 4, 1, 13, 37)],
+  ])("interprets dates in %s", (timezone, date, expected) => {
+    const [entry] = parse(createListing(date), { format: "F1", timezone });
+
+    expect(entry?.lastModified).toBe(expected);
+  });
+
+  it("handles wall-clock times right after a dst transition", () => {
+    // clocks in copenhagen jump from 02:00 to 03:00 on 2024-03-31
+    const [entry] = parse(createListing("2024-03-31 03:30"), { format: "F1", timezone: "Europe/Copenhagen" });
+
+    expect(entry?.lastModified).toBe(Date.UTC(2024, 2, 31, 1, 30));
+  });
+
+  it("throws on unknown timezones", () => {
+    expect(() => parse(createListing("2024-05-01 13:37"), { format: "F1", timezone: "Mars/Olympus_Mons" })).toThrow(RangeError);
+  });
+
+  it("throws on unknown timezones before any date is parsed", () => {
+    const error = new RangeError("invalid timezone: Europe/Copenhagn");
+
+    expect(() => parse("", { timezone: "Europe/Copenhagn" })).toThrow(error);
+    expect(() => createStreamParser({ timezone: "Europe/Copenhagn" })).toThrow(error);
+  });
+
+  it("keeps the raw date and its precision", () => {
+    const [minutes] = parse(createListing("2024-05-01 13:37"), "F1");
+    const [seconds] = parse(createListing("2024-05-01 13:37:42"), "F1");
+
+    expect(minutes).toMatchObject({ lastModifiedRaw: "2024-05-01 13:37", lastModifiedPrecision: "minute" });
+    expect(seconds).toMatchObject({
+      lastModified: Date.UTC(2024, 4, 1, 13, 37, 42),
+      lastModifiedRaw: "2024-05-01 13:37:42",
+      lastModifiedPrecision: "second",
+    });
+  });
+
+  it("applies the timezone to F2 listings", () => {
+    const entries: Entry[] = [
+      { type: "file", name: "a.txt", path: "a.txt", href: "a.txt", lastModified: Date.UTC(2024, 4, 1, 13, 37), size: undefined, kind: "text" },
+    ];
+
+    const [entry] = parse(generateAutoIndexHtml(entries, "F2"), { format: "F2", timezone: "+01:00" });
+
+    expect(entry?.lastModified).toBe(Date.UTC(2024, 4, 1, 12, 37));
+    expect(entry?.lastModifiedRaw).toBe("2024-05-01 13:37");
+  });
+
+  it("passes the timezone through traverse", async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      text: () => Promise.resolve(createListing("2024-05-01 13:37")),
+    });
+
+    vi.stubGlobal("fetch", mockFetch);
+
+    const [entry] = await traverse("http://example.com/", { format: "F1", timezone: "Europe/Copenhagen" });
+
+    expect(entry?.lastModified).toBe(Date.UTC(2024, 4, 1, 11, 37));
+
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects unknown timezones in traverse before fetching", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+
+    await expect(traverse("http://example.com/", { timezone: "Europe/Copenhagn" })).rejects.toThrow(RangeError);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    vi.unstubAllGlobals();
+  });
+});
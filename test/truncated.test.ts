@@ -0,0 +1,100 @@
+import type { Entry } from "../src";
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parse } from "../src";
+import { createSampleEntries, generateAutoIndexHtml, generateNginxListing } from "../src/test-utils";
+import { createFixture } from "./__utils";
+
+describe("truncated names", () => {
+  describe.each([
+    ["F1" as const],
+    ["F2" as const],
+  ])("%s", (format) => {
+    const fixture = createFixture(format);
+
+    it("recovers names shortened by NameWidth", () => {
+      const html = readFileSync(fixture("directory.html"), "utf-8");
+      const entries = parse(html, format);
+
+      const file = entries.find((entry) => entry.path === "file_with_underscores.json");
+
+      expect(file).toMatchObject({
+        name: "file_with_underscores.json",
+        truncated: true,
+        kind: "text",
+      });
+
+      expect(entries.filter((entry) => entry.truncated)).toHaveLength(1);
+      expect(entries.some((entry) => entry.name.endsWith("..>"))).toBe(false);
+    });
+
+    it("recovers escaped and encoded names", () => {
+      const html = readFileSync(fixture("special-files.html"), "utf-8");
+      const entries = parse(html, format);
+
+      const names = entries.filter((entry) => entry.truncated).map((entry) => entry.name);
+
+      expect(names).toContain("file\"with\"double\"quotes.rb");
+      expect(names).toContain("file%20with%20url%20encoding.html");
+      expect(names).toContain("file&with&ampersands.php");
+      expect(names).toContain("file+with+plus+signs.txt");
+    });
+
+    it("doesn't flag names that fit", () => {
+      const html = readFileSync(fixture("directory.html"), "utf-8");
+      const entries = parse(html, format);
+
+      expect(entries.find((entry) => entry.name === "simple.txt")).not.toHaveProperty("truncated");
+    });
+
+    it("round-trips truncated names through generateAutoIndexHtml", () => {
+      const entries: Entry[] = [
+        ...createSampleEntries(),
+        {
+          type: "directory",
+          name: "a-directory-with-a-long-name",
+          path: "a-directory-with-a-long-name/",
+          href: "a-directory-with-a-long-name/",
+          lastModified: undefined,
+          kind: "directory",
+        },
+        {
+          type: "file",
+          name: "release & notes for version 1.0.0.txt",
+          path: "release & notes for version 1.0.0.txt",
+          href: "release%20%26%20notes%20for%20version%201.0.0.txt",
+          lastModified: undefined,
+          size: undefined,
+          kind: "text",
+        },
+      ];
+
+      const html = generateAutoIndexHtml(entries, format, { nameWidth: 23 });
+
+      expect(html).toContain("release &amp; notes for ..&gt;");
+
+      const parsed = parse(html, format);
+
+      expect(parsed.map((entry) => entry.name)).toStrictEqual(entries.map((entry) => entry.name));
+      expect(parsed.map((entry) => entry.truncated ?? false)).toStrictEqual([false, false, false, false, true, true]);
+    });
+  });
+
+  it("flags names truncated by nginx", () => {
+    const entries: Entry[] = [
+      {
+        type: "file",
+        name: "this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz",
+        path: "this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz",
+        href: "this-is-a-very-long-file-name-that-nginx-will-truncate.tar.gz",
+        lastModified: undefined,
+        size: undefined,
+        kind: "archive",
+      },
+    ];
+
+    const [entry] = parse(generateNginxListing(entries, "nginx"), "nginx");
+
+    expect(entry).toMatchObject({ name: entries[0]!.name, truncated: true });
+  });
+});